@@ -1,211 +1,811 @@
 // OptionGreeksVisualization.tsx
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import TwoDChart from "./components/TwoDChart";
 import ThreeDChart from "./components/ThreeDChart";
 import PortfolioChart from "./components/PortfolioChart";
-import { initWasm } from "./utils/wasm";
+import StrategyPicker from "./components/StrategyPicker";
+import VolSurfaceEditor from "./components/VolSurfaceEditor";
+import ChainImporter from "./components/ChainImporter";
+import ScenarioGrid from "./components/ScenarioGrid";
+import MonteCarloChart from "./components/MonteCarloChart";
+import WorkspaceBar from "./components/WorkspaceBar";
+import SweepRangeEditor from "./components/SweepRangeEditor";
+import ComparisonBar from "./components/ComparisonBar";
+import TimeDecayPlayer from "./components/TimeDecayPlayer";
+import DayCountPanel from "./components/DayCountPanel";
+import HedgingPanel from "./components/HedgingPanel";
+import ExoticTermsFields from "./components/ExoticTermsFields";
+import {
+  CalculatorClient,
+  createCalculatorClient,
+} from "./utils/calculatorClient";
 import { jsCalculateGreeks } from "./utils/calculations";
+import { buildStrategy } from "./utils/strategies";
+import { buildShareableHash, readShareableState } from "./utils/urlState";
+import { DEFAULT_VOL_SURFACE } from "./utils/volSurface";
+import { buildFrameDays, frameValueRange } from "./utils/animation";
+import { SKETCH_POINTS } from "./utils/hedging";
+import { DEFAULT_EXOTIC_TERMS, hasExoticPayoff } from "./utils/exotics";
+import {
+  MODEL_LABELS,
+  MODEL_LIMITS,
+  convertVolatility,
+  spotLabel,
+  validateOptionInputs,
+  volatilityLabel,
+} from "./utils/pricingModels";
+import {
+  DAYS_PER_YEAR,
+  DEFAULT_DAY_COUNT,
+  expiryFromYearFraction,
+  parseIsoDate,
+  todayIsoDate,
+  yearFraction,
+} from "./utils/dayCount";
+import { labelComparisonSeries, normalizeChartData } from "./utils/comparison";
+import {
+  loadSweepSettings,
+  saveSweepSettings,
+  scaleSweepRange,
+} from "./utils/sweepRanges";
+import {
+  isDayCountSettings,
+  isSavedScenarioList,
+  isVolSurface,
+  readStoredJson,
+} from "./utils/storage";
+import {
+  addPortfolio,
+  createPortfolio,
+  getActivePortfolio,
+  loadWorkspaceStore,
+  saveWorkspaceStore,
+  updatePortfolio,
+} from "./utils/workspaces";
+import {
+  DEFAULT_SCENARIOS,
+  SCENARIO_SPOT_SHOCKS,
+  SCENARIO_VOL_SHOCKS,
+  buildScenarioGrid,
+} from "./utils/scenarios";
 import {
-  OptionParams,
-  CalculatorMessage,
   ChartDataPoint,
   SurfaceDataPoint,
   PortfolioDataPoint,
   PortfolioOption,
   Greeks,
-  WasmModule,
+  StrategyTemplate,
+  VolSurface,
+  SavedScenario,
+  ScenarioResult,
+  MonteCarloResult,
+  VisualizationMode,
+  TwoDChartType,
+  TwoDParameter,
+  PortfolioAxis,
+  ThreeDRanges,
   CalculatorResponse,
+  ImpliedVolatilityStatus,
+  ExerciseStyle,
+  WorkspaceStore,
+  SweepMode,
+  SweepRange,
+  SweepSettings,
+  ComparisonSeries,
+  AnimationParams,
+  AnimationResult,
+  DataGenerationParams,
   ThreeDDataParams,
   PortfolioParams,
-  DataGenerationParams,
-  GreeksParams,
+  DayCountSettings,
+  HedgeSettings,
+  HedgeProposal,
+  HedgeSimulationResult,
+  OptionParams,
+  PricingModel,
+  ExoticTerms,
 } from "./utils/types";
 import "./App.css";
 
+const HIGHER_ORDER_GREEKS: Array<keyof Greeks> = [
+  "vanna",
+  "volga",
+  "charm",
+  "speed",
+  "color",
+  "zomma",
+];
+
+const FRAME_TASKS: Partial<
+  Record<VisualizationMode, AnimationParams["frameTask"]>
+> = {
+  "2d": "generateData",
+  "3d": "generate3DData",
+  portfolio: "calculatePortfolio",
+};
+
+// Views priced from the portfolio legs
+const LEG_MODES: VisualizationMode[] = ["portfolio", "scenarios"];
+
+// Implied vols are solved on the lognormal models only
+const IV_PLACEHOLDERS: Record<PricingModel, string> = {
+  blackScholes: "Solve for IV",
+  black76: "Solve for IV",
+  bachelier: "Lognormal only",
+};
+
 const OptionGreeksVisualization: React.FC = () => {
-  const [optionType, setOptionType] = useState<"call" | "put">("call");
-  const [greek, setGreek] = useState<keyof Greeks | "price">("delta");
-  const [parameter, setParameter] = useState<
-    "price" | "time" | "volatility" | "interest" | "moneyness"
-  >("price");
-  const [spotPrice, setSpotPrice] = useState<number>(100);
-  const [strikePrice, setStrikePrice] = useState<number>(100);
-  const [volatility, setVolatility] = useState<number>(0.2);
-  const [timeToExpiry, setTimeToExpiry] = useState<number>(1);
-  const [interestRate, setInterestRate] = useState<number>(0.05);
-  const [visualizationMode, setVisualizationMode] = useState<
-    "2d" | "3d" | "portfolio"
-  >("2d");
-  const [xParameter, setXParameter] = useState<
-    "price" | "strike" | "time" | "volatility" | "interest"
-  >("price");
-  const [yParameter, setYParameter] = useState<
-    "price" | "strike" | "time" | "volatility" | "interest"
-  >("volatility");
-  const [options, setOptions] = useState<PortfolioOption[]>(() => {
-    const savedOptions = localStorage.getItem("options");
-    return savedOptions
-      ? JSON.parse(savedOptions)
-      : [
-          {
-            type: "call",
-            position: "long",
-            quantity: 1,
-            S: 100,
-            K: 100,
-            T: 1,
-            r: 0.05,
-            sigma: 0.2,
-          },
-        ];
+  // A shared link takes precedence over defaults and saved state
+  const [shared] = useState(() => readShareableState(window.location.hash));
+  const [optionType, setOptionType] = useState<"call" | "put">(
+    shared.optionType ?? "call"
+  );
+  const [exerciseStyle, setExerciseStyle] = useState<ExerciseStyle>(
+    shared.exerciseStyle ?? "european"
+  );
+  const [exotic, setExotic] = useState<ExoticTerms>(
+    shared.exotic ?? DEFAULT_EXOTIC_TERMS
+  );
+  const isExotic = hasExoticPayoff({ exotic });
+  const [model, setModel] = useState<PricingModel>(
+    shared.model ?? "blackScholes"
+  );
+  // Early exercise and exotic payoffs are priced under Black-Scholes only
+  const europeanOnly = isExotic || model !== "blackScholes";
+  const limits = MODEL_LIMITS[model];
+  const [twoDChartType, setTwoDChartType] = useState<TwoDChartType>(
+    shared.twoDChartType ?? "greeks"
+  );
+  const [greek, setGreek] = useState<keyof Greeks | "price">(
+    shared.greek ?? "delta"
+  );
+  const [parameter, setParameter] = useState<TwoDParameter>(
+    shared.parameter ?? "price"
+  );
+  const [spotPrice, setSpotPrice] = useState<number>(shared.spotPrice ?? 100);
+  const [strikePrice, setStrikePrice] = useState<number>(
+    shared.strikePrice ?? 100
+  );
+  const [volatility, setVolatility] = useState<number>(
+    shared.volatility ?? 0.2
+  );
+  const [valuationDate, setValuationDate] = useState<string>(
+    () => shared.valuationDate ?? todayIsoDate()
+  );
+  const [dayCount, setDayCount] = useState<DayCountSettings>(() =>
+    readStoredJson("dayCount", DEFAULT_DAY_COUNT, isDayCountSettings)
+  );
+  const [expiryDate, setExpiryDate] = useState<string>(() =>
+    expiryFromYearFraction(valuationDate, shared.timeToExpiry ?? 1, dayCount)
+  );
+  const timeToExpiry = yearFraction(valuationDate, expiryDate, dayCount);
+  const daysPerYear = DAYS_PER_YEAR[dayCount.convention];
+  const [interestRate, setInterestRate] = useState<number>(
+    shared.interestRate ?? 0.05
+  );
+  const [dividendYield, setDividendYield] = useState<number>(
+    shared.dividendYield ?? 0
+  );
+  const [marketPrice, setMarketPrice] = useState<string>("");
+  const [ivStatus, setIvStatus] = useState<ImpliedVolatilityStatus | null>(
+    null
+  );
+  const [visualizationMode, setVisualizationMode] = useState<VisualizationMode>(
+    shared.visualizationMode ?? "2d"
+  );
+  const [volSurface, setVolSurface] = useState<VolSurface>(() => {
+    if (shared.volSurface) return shared.volSurface;
+    return readStoredJson("volSurface", DEFAULT_VOL_SURFACE, isVolSurface);
+  });
+  const [sweepSettings, setSweepSettings] =
+    useState<SweepSettings>(loadSweepSettings);
+  const [xParameter, setXParameter] = useState<keyof ThreeDRanges>(
+    shared.xParameter ?? "price"
+  );
+  const [yParameter, setYParameter] = useState<keyof ThreeDRanges>(
+    shared.yParameter ?? "volatility"
+  );
+  const [workspace, setWorkspace] = useState<WorkspaceStore>(() => {
+    const store = loadWorkspaceStore();
+    if (!shared.options) return store;
+    // Reloading a shared link reopens its portfolio rather than copying it
+    const legsKey = (legs: PortfolioOption[]) =>
+      JSON.stringify(
+        legs.map((leg) => [
+          leg.type,
+          leg.exercise,
+          leg.position,
+          leg.quantity,
+          leg.K,
+          leg.T,
+          leg.sigma,
+          leg.q,
+          leg.entryPrice,
+        ])
+      );
+    const sharedKey = legsKey(shared.options);
+    const existing = store.portfolios.find(
+      (portfolio) => legsKey(portfolio.options) === sharedKey
+    );
+    return existing
+      ? { ...store, activeId: existing.id }
+      : addPortfolio(
+          store,
+          createPortfolio("Shared Portfolio", shared.options)
+        );
   });
-  const [portfolioParam, setPortfolioParam] = useState<
-    "price" | "time" | "volatility" | "interest"
-  >("price");
+  const options = getActivePortfolio(workspace).options;
+  const setOptions = (next: PortfolioOption[]) =>
+    setWorkspace((store) =>
+      updatePortfolio(store, store.activeId, { options: next })
+    );
+  const [portfolioParam, setPortfolioParam] = useState<PortfolioAxis>(
+    shared.portfolioParam ?? "price"
+  );
+  const [volShift, setVolShift] = useState<number>(shared.volShift ?? 0);
+  const [daysForward, setDaysForward] = useState<number>(
+    shared.daysForward ?? 0
+  );
+  const [scenarioDays, setScenarioDays] = useState<number>(
+    shared.scenarioDays ?? 0
+  );
+  const [savedScenarios, setSavedScenarios] = useState<SavedScenario[]>(() =>
+    readStoredJson("scenarios", DEFAULT_SCENARIOS, isSavedScenarioList)
+  );
+  const [scenarioResults, setScenarioResults] = useState<ScenarioResult[]>([]);
+  const [horizonDays, setHorizonDays] = useState<number>(
+    shared.horizonDays ?? 30
+  );
+  const [monteCarloPaths, setMonteCarloPaths] = useState<number>(
+    shared.monteCarloPaths ?? 20000
+  );
+  const [monteCarloSeed, setMonteCarloSeed] = useState<number>(
+    shared.monteCarloSeed ?? 1
+  );
+  const [confidence, setConfidence] = useState<number>(
+    shared.confidence ?? 0.95
+  );
+  const [monteCarloResult, setMonteCarloResult] =
+    useState<MonteCarloResult | null>(null);
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
   const [surfaceData, setSurfaceData] = useState<SurfaceDataPoint[]>([]);
-  const [portfolioData, setPortfolioData] = useState<PortfolioDataPoint[]>(
-    () => {
-      const savedPortfolioData = localStorage.getItem("portfolioData");
-      return savedPortfolioData ? JSON.parse(savedPortfolioData) : [];
-    }
-  );
+  const [portfolioData, setPortfolioData] = useState<PortfolioDataPoint[]>([]);
   const [currentValues, setCurrentValues] = useState<Partial<Greeks>>({});
   const [isCalculating, setIsCalculating] = useState<boolean>(false);
   const [isDropdownOpen, setIsDropdownOpen] = useState<boolean>(true);
-  const [wasmModule, setWasmModule] = useState<WasmModule | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const [comparisons, setComparisons] = useState<ComparisonSeries[]>([]);
+  const [normalizeSeries, setNormalizeSeries] = useState<boolean>(false);
+  const [isAnimating, setIsAnimating] = useState<boolean>(false);
+  const [daysPerFrame, setDaysPerFrame] = useState<number>(7);
+  const [animation, setAnimation] = useState<AnimationResult | null>(null);
+  const [frameIndex, setFrameIndex] = useState<number>(0);
+  const [hedgeSettings, setHedgeSettings] = useState<HedgeSettings>(() => ({
+    target: "delta",
+    instrumentType: "call",
+    instrumentStrike: Math.round(spotPrice),
+    instrumentExpiry: expiryDate,
+    instrumentSigma: volatility,
+    horizonDays: 30,
+    rebalanceDays: 1,
+    paths: 200,
+    seed: 1,
+    source: "simulated",
+    sketch: Array(SKETCH_POINTS).fill(1),
+  }));
+  const [isHedgingOpen, setIsHedgingOpen] = useState<boolean>(false);
+  const [hedgeProposal, setHedgeProposal] = useState<HedgeProposal | null>(
+    null
+  );
+  const [hedgeSimulation, setHedgeSimulation] =
+    useState<HedgeSimulationResult | null>(null);
+  const calculatorRef = useRef<CalculatorClient | null>(null);
 
   useEffect(() => {
-    const loadWasm = async () => {
-      const module = await initWasm();
-      setWasmModule(module);
+    const calculator = createCalculatorClient(
+      processCalculatorResult,
+      setIsCalculating
+    );
+    calculatorRef.current = calculator;
+    return () => {
+      calculator.terminate();
+      calculatorRef.current = null;
     };
-    loadWasm();
   }, []);
 
   useEffect(() => {
-    const greeks = calculateGreeks(
+    calculatorRef.current?.post("calculateGreeks", {
+      type: optionType,
+      exercise: exerciseStyle,
+      exotic,
+      model,
+      S: spotPrice,
+      K: strikePrice,
+      T: timeToExpiry,
+      r: interestRate,
+      q: dividendYield,
+      sigma: volatility,
+      position: "long",
+      quantity: 1,
+      daysPerYear,
+    });
+  }, [
+    optionType,
+    exerciseStyle,
+    exotic,
+    model,
+    spotPrice,
+    strikePrice,
+    timeToExpiry,
+    interestRate,
+    dividendYield,
+    volatility,
+    daysPerYear,
+  ]);
+
+  useEffect(() => {
+    const price = parseFloat(marketPrice);
+    if (marketPrice === "" || isNaN(price)) {
+      setIvStatus(null);
+      return;
+    }
+    calculatorRef.current?.post("impliedVolatility", {
+      type: optionType,
+      price,
+      S: spotPrice,
+      K: strikePrice,
+      T: timeToExpiry,
+      r: interestRate,
+      q: dividendYield,
+      model,
+      exercise: exerciseStyle,
+    });
+  }, [
+    marketPrice,
+    optionType,
+    exerciseStyle,
+    model,
+    spotPrice,
+    strikePrice,
+    timeToExpiry,
+    interestRate,
+    dividendYield,
+  ]);
+
+  useEffect(() => {
+    saveWorkspaceStore(workspace);
+  }, [workspace]);
+
+  useEffect(() => {
+    saveSweepSettings(sweepSettings);
+  }, [sweepSettings]);
+
+  useEffect(() => {
+    localStorage.setItem("dayCount", JSON.stringify(dayCount));
+  }, [dayCount]);
+
+  useEffect(() => {
+    localStorage.setItem("volSurface", JSON.stringify(volSurface));
+  }, [volSurface]);
+
+  useEffect(() => {
+    localStorage.setItem("scenarios", JSON.stringify(savedScenarios));
+  }, [savedScenarios]);
+
+  useEffect(() => {
+    const hash = buildShareableHash({
+      visualizationMode,
+      twoDChartType,
       optionType,
+      exerciseStyle,
+      exotic,
+      model,
+      greek,
+      parameter,
+      xParameter,
+      yParameter,
+      portfolioParam,
       spotPrice,
       strikePrice,
+      volatility,
       timeToExpiry,
       interestRate,
-      volatility
-    );
-    setCurrentValues(greeks);
+      dividendYield,
+      volShift,
+      daysForward,
+      options,
+      volSurface,
+      scenarioDays,
+      horizonDays,
+      monteCarloPaths,
+      monteCarloSeed,
+      confidence,
+      valuationDate,
+    });
+    window.history.replaceState(null, "", hash);
   }, [
-    wasmModule,
+    visualizationMode,
+    twoDChartType,
     optionType,
+    exerciseStyle,
+    exotic,
+    model,
+    greek,
+    parameter,
+    xParameter,
+    yParameter,
+    portfolioParam,
     spotPrice,
     strikePrice,
+    volatility,
     timeToExpiry,
     interestRate,
-    volatility,
+    dividendYield,
+    volShift,
+    daysForward,
+    options,
+    volSurface,
+    scenarioDays,
+    horizonDays,
+    monteCarloPaths,
+    monteCarloSeed,
+    confidence,
+    valuationDate,
   ]);
 
-  useEffect(() => {
-    localStorage.setItem("options", JSON.stringify(options));
-    localStorage.setItem("portfolioData", JSON.stringify(portfolioData));
-  }, [options, portfolioData]);
+  // Older saved legs may predate the exercise, dividend, entry and expiry
+  // date fields
+  const portfolioLegs = useMemo(
+    () =>
+      options.map((option) => ({
+        ...option,
+        exercise: option.exercise ?? "european",
+        q: option.q ?? 0,
+        entryPrice: option.entryPrice ?? 0,
+        S: spotPrice,
+        r: interestRate,
+        T: option.expiry
+          ? yearFraction(valuationDate, option.expiry, dayCount)
+          : option.T,
+      })),
+    [options, spotPrice, interestRate, valuationDate, dayCount]
+  );
+
+  const legWarnings = useMemo(
+    () => portfolioLegs.map(validateOptionInputs),
+    [portfolioLegs]
+  );
+  const pricedLegs = useMemo(
+    () => portfolioLegs.filter((_, i) => !legWarnings[i]),
+    [portfolioLegs, legWarnings]
+  );
+
+  const hedgeInstrument = useMemo<OptionParams>(
+    () => ({
+      type: hedgeSettings.instrumentType,
+      exercise: "european",
+      S: spotPrice,
+      K: hedgeSettings.instrumentStrike,
+      T: yearFraction(valuationDate, hedgeSettings.instrumentExpiry, dayCount),
+      r: interestRate,
+      q: dividendYield,
+      sigma: hedgeSettings.instrumentSigma,
+    }),
+    [
+      hedgeSettings,
+      spotPrice,
+      interestRate,
+      dividendYield,
+      valuationDate,
+      dayCount,
+    ]
+  );
+
+  const liveSeries: ComparisonSeries = {
+    id: "live",
+    greek,
+    optionType,
+    exerciseStyle,
+    exotic,
+    model,
+    spotPrice,
+    strikePrice,
+    timeToExpiry,
+    expiryDate,
+    volatility,
+    interestRate,
+    dividendYield,
+  };
+
+  // Time decay is animated wherever time is not already on an axis
+  const canAnimate =
+    (visualizationMode === "2d" &&
+      twoDChartType === "greeks" &&
+      parameter !== "time") ||
+    (visualizationMode === "3d" &&
+      xParameter !== "time" &&
+      yParameter !== "time") ||
+    (visualizationMode === "portfolio" && portfolioParam !== "elapsed");
+  const daysToExpiry =
+    visualizationMode === "portfolio"
+      ? Math.max(0, ...pricedLegs.map((option) => option.T * daysPerYear)) -
+        daysForward
+      : timeToExpiry * daysPerYear;
+  const frameDays = useMemo(
+    () => buildFrameDays(daysToExpiry, daysPerFrame),
+    [daysToExpiry, daysPerFrame]
+  );
+  // Frames only apply to the chart task they were computed for
+  const frames =
+    isAnimating &&
+    canAnimate &&
+    animation &&
+    animation.frameTask === FRAME_TASKS[visualizationMode]
+      ? animation.frames
+      : null;
+  const activeFrame = frames
+    ? frames[Math.min(frameIndex, frames.length - 1)]
+    : null;
+  const frameRange = useMemo(() => {
+    if (!frames) return undefined;
+    return frameValueRange(
+      frames.map(({ data }) =>
+        (data as Array<ChartDataPoint | SurfaceDataPoint>).flatMap((point) =>
+          "z" in point ? [point.z] : [point.value, ...(point.series ?? [])]
+        )
+      )
+    );
+  }, [frames]);
 
   useEffect(() => {
-    setIsCalculating(true);
-
-    if (visualizationMode === "2d") {
-      processMessage({
-        task: "generateData",
-        params: {
-          optionType,
-          greek,
-          parameter,
-          spotPrice,
-          strikePrice,
-          timeToExpiry,
-          interestRate,
-          volatility,
-        },
+    const calculator = calculatorRef.current;
+    if (!calculator) return;
+
+    const postFrames = (
+      frameTask: AnimationParams["frameTask"],
+      params: AnimationParams["params"]
+    ) => {
+      if (!isAnimating || !canAnimate) return;
+      setAnimation(null);
+      calculator.post("generateFrames", { frameTask, params, frameDays });
+    };
+
+    // Normal vols sweep the lognormal ranges as a fraction of the strike
+    const volatilityScale = model === "bachelier" ? strikePrice : 1;
+
+    if (visualizationMode === "2d" && twoDChartType === "boundary") {
+      calculator.post("generateBoundary", {
+        optionType,
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        interestRate,
+        dividendYield,
+        volatility,
       });
+    } else if (visualizationMode === "2d") {
+      const parameterScale: Partial<Record<TwoDParameter, number>> = {
+        price: strikePrice,
+        volatility: volatilityScale,
+      };
+      const dataParams: DataGenerationParams = {
+        optionType,
+        exerciseStyle,
+        exotic,
+        model,
+        greek,
+        parameter,
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        interestRate,
+        dividendYield,
+        volatility,
+        range: scaleSweepRange(
+          sweepSettings.twoD[parameter],
+          parameterScale[parameter] ?? 1
+        ),
+        comparisons,
+        volSurface,
+        daysPerYear,
+      };
+      calculator.post("generateData", dataParams);
+      postFrames("generateData", dataParams);
     } else if (visualizationMode === "3d") {
-      processMessage({
-        task: "generate3DData",
-        params: {
-          optionType,
-          xParam: xParameter,
-          yParam: yParameter,
-          spotPrice,
-          strikePrice,
-          timeToExpiry,
-          interestRate,
-          volatility,
-        },
+      const axisScale: Partial<Record<keyof ThreeDRanges, number>> = {
+        price: spotPrice,
+        strike: strikePrice,
+        volatility: volatilityScale,
+      };
+      const surfaceParams: ThreeDDataParams = {
+        optionType,
+        exerciseStyle,
+        exotic,
+        model,
+        greek,
+        xParam: xParameter,
+        yParam: yParameter,
+        xRange: scaleSweepRange(
+          sweepSettings.threeD[xParameter],
+          axisScale[xParameter] ?? 1
+        ),
+        yRange: scaleSweepRange(
+          sweepSettings.threeD[yParameter],
+          axisScale[yParameter] ?? 1
+        ),
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        interestRate,
+        dividendYield,
+        volatility,
+        volSurface,
+        daysPerYear,
+      };
+      calculator.post("generate3DData", surfaceParams);
+      postFrames("generate3DData", surfaceParams);
+    } else if (visualizationMode === "volSurface") {
+      calculator.post("generateVolSurface", {
+        volSurface,
+        strikeRange: scaleSweepRange(
+          sweepSettings.volSurface.strike,
+          spotPrice
+        ),
+        timeRange: sweepSettings.volSurface.time,
+        spotPrice,
+        interestRate,
+        dividendYield,
+        volatility,
+      });
+    } else if (visualizationMode === "scenarios") {
+      calculator.post("calculateScenarios", {
+        options: pricedLegs,
+        shocks: [
+          ...buildScenarioGrid(scenarioDays),
+          ...savedScenarios.map(({ spotShock, volShock, daysForward }) => ({
+            spotShock,
+            volShock,
+            daysForward,
+          })),
+        ],
+        volSurface,
+        daysPerYear,
       });
     } else if (visualizationMode === "portfolio") {
-      const updatedOptions = options.map((option) => ({
+      // Legs keep their own expiry and IV; the global controls shift them
+      const updatedOptions = pricedLegs.map((option) => ({
         ...option,
-        S: spotPrice,
-        T: timeToExpiry,
-        r: interestRate,
-        sigma: volatility,
+        T: Math.max(option.T - daysForward / daysPerYear, 0),
       }));
-      let min: number, max: number;
+      let scale = 1;
       if (portfolioParam === "price") {
-        min = spotPrice * 0.5;
-        max = spotPrice * 1.5;
-      } else if (portfolioParam === "time") {
-        min = 0.01;
-        max = 2;
-      } else if (portfolioParam === "volatility") {
-        min = 0.05;
-        max = 0.6;
-      } else {
-        min = 0.01;
-        max = 0.1;
+        scale = spotPrice;
+      } else if (portfolioParam === "elapsed") {
+        scale = Math.max(0.01, ...updatedOptions.map((option) => option.T));
       }
 
-      processMessage({
-        task: "calculatePortfolio",
-        params: {
-          options: updatedOptions,
-          xAxis: portfolioParam,
-          range: { min, max },
-        },
-      });
+      const portfolioParams: PortfolioParams = {
+        options: updatedOptions,
+        xAxis: portfolioParam,
+        range: scaleSweepRange(sweepSettings.portfolio[portfolioParam], scale),
+        volShift,
+        volSurface,
+        daysPerYear,
+      };
+      calculator.post("calculatePortfolio", portfolioParams);
+      postFrames("calculatePortfolio", portfolioParams);
     }
   }, [
     visualizationMode,
+    twoDChartType,
     optionType,
+    exerciseStyle,
+    exotic,
+    model,
     greek,
     parameter,
     spotPrice,
     strikePrice,
     timeToExpiry,
     interestRate,
+    dividendYield,
     volatility,
     xParameter,
     yParameter,
     portfolioParam,
+    volShift,
+    daysForward,
     options,
+    volSurface,
+    scenarioDays,
+    savedScenarios,
+    pricedLegs,
+    sweepSettings,
+    comparisons,
+    isAnimating,
+    canAnimate,
+    frameDays,
+    daysPerYear,
   ]);
 
-  const calculateGreeks = (
-    type: "call" | "put",
-    S: number,
-    K: number,
-    T: number,
-    r: number,
-    sigma: number
-  ) => {
-    if (!wasmModule) {
-      return jsCalculateGreeks(type, S, K, T, r, sigma);
-    }
-    return wasmModule.calculateGreeks(type, S, K, T, r, sigma);
-  };
+  useEffect(() => {
+    if (visualizationMode !== "portfolio") return;
+    calculatorRef.current?.post("simulatePnl", {
+      options: pricedLegs,
+      spotPrice,
+      interestRate,
+      dividendYield,
+      volatility,
+      horizonDays,
+      paths: monteCarloPaths,
+      seed: monteCarloSeed,
+      confidence,
+      volSurface,
+      daysPerYear,
+    });
+  }, [
+    visualizationMode,
+    pricedLegs,
+    spotPrice,
+    interestRate,
+    dividendYield,
+    volatility,
+    horizonDays,
+    monteCarloPaths,
+    monteCarloSeed,
+    confidence,
+    volSurface,
+    daysPerYear,
+  ]);
+
+  // The rebalancing simulation reprices every leg on every path and day, so
+  // it only runs while the hedging panel is open
+  useEffect(() => {
+    if (visualizationMode !== "portfolio" || !isHedgingOpen) return;
+    const { target, horizonDays, rebalanceDays, paths, seed, source, sketch } =
+      hedgeSettings;
+    const hedge = {
+      options: pricedLegs,
+      target,
+      instrument: hedgeInstrument,
+      volSurface,
+      daysPerYear,
+    };
+    calculatorRef.current?.post("proposeHedge", hedge);
+    calculatorRef.current?.post("simulateHedge", {
+      ...hedge,
+      volatility,
+      horizonDays,
+      rebalanceDays,
+      paths,
+      seed,
+      customPath: source === "sketched" ? sketch : undefined,
+    });
+  }, [
+    visualizationMode,
+    isHedgingOpen,
+    pricedLegs,
+    hedgeSettings,
+    hedgeInstrument,
+    volatility,
+    volSurface,
+    daysPerYear,
+  ]);
 
   const processCalculatorResult = (e: CalculatorResponse) => {
-    setIsCalculating(false);
-    const { task, result, data, results } = e;
+    const {
+      task,
+      result,
+      data,
+      results,
+      impliedVolatility,
+      monteCarlo,
+      animation,
+      hedge,
+      hedgeSimulation,
+    } = e;
 
-    if (task === "dataResult") {
+    if (task === "dataResult" || task === "boundaryResult") {
       setChartData(data as ChartDataPoint[]);
     } else if (task === "3dDataResult") {
       setSurfaceData(data as SurfaceDataPoint[]);
@@ -213,254 +813,21 @@ const OptionGreeksVisualization: React.FC = () => {
       setCurrentValues(result as Greeks);
     } else if (task === "portfolioResult") {
       setPortfolioData(results as PortfolioDataPoint[]);
-    }
-  };
-
-  const processMessage = async function (e: CalculatorMessage) {
-    const { task, params } = e;
-
-    if (task === "calculateGreeks") {
-      const { type, S, K, T, r, sigma } = params as GreeksParams;
-      const result = calculateGreeks(type, S, K, T, r, sigma);
-      processCalculatorResult({ task: "greeksResult", result });
-    } else if (task === "generateData") {
-      const {
-        optionType,
-        greek,
-        parameter,
-        spotPrice,
-        strikePrice,
-        timeToExpiry,
-        interestRate,
-        volatility,
-      } = params as DataGenerationParams;
-      const data = [];
-
-      if (parameter === "price") {
-        const minPrice = strikePrice * 0.5;
-        const maxPrice = strikePrice * 1.5;
-        const step = (maxPrice - minPrice) / 100;
-
-        for (let price = minPrice; price <= maxPrice; price += step) {
-          const greeks = calculateGreeks(
-            optionType,
-            price,
-            strikePrice,
-            timeToExpiry,
-            interestRate,
-            volatility
-          );
-          data.push({
-            parameter: price,
-            value: greeks[greek],
-          });
-        }
-      } else if (parameter === "time") {
-        for (let time = 0.01; time <= 2; time += 0.02) {
-          const greeks = calculateGreeks(
-            optionType,
-            spotPrice,
-            strikePrice,
-            time,
-            interestRate,
-            volatility
-          );
-          data.push({
-            parameter: time,
-            value: greeks[greek],
-          });
-        }
-      } else if (parameter === "volatility") {
-        for (let vol = 0.05; vol <= 1; vol += 0.01) {
-          const greeks = calculateGreeks(
-            optionType,
-            spotPrice,
-            strikePrice,
-            timeToExpiry,
-            interestRate,
-            vol
-          );
-          data.push({
-            parameter: vol,
-            value: greeks[greek],
-          });
-        }
-      } else if (parameter === "interest") {
-        for (let rate = 0.01; rate <= 0.1; rate += 0.001) {
-          const greeks = calculateGreeks(
-            optionType,
-            spotPrice,
-            strikePrice,
-            timeToExpiry,
-            rate,
-            volatility
-          );
-          data.push({
-            parameter: rate,
-            value: greeks[greek],
-          });
-        }
-      } else if (parameter === "moneyness") {
-        for (let moneyness = 0.5; moneyness <= 1.5; moneyness += 0.01) {
-          const effectiveSpotPrice = strikePrice * moneyness;
-          const greeks = calculateGreeks(
-            optionType,
-            effectiveSpotPrice,
-            strikePrice,
-            timeToExpiry,
-            interestRate,
-            volatility
-          );
-          data.push({
-            parameter: moneyness,
-            value: greeks[greek],
-          });
-        }
-      }
-
-      processCalculatorResult({ task: "dataResult", data });
-    } else if (task === "generate3DData") {
-      const {
-        optionType,
-        xParam,
-        yParam,
-        spotPrice,
-        strikePrice,
-        timeToExpiry,
-        interestRate,
-        volatility,
-      } = params as ThreeDDataParams;
-      const data = [];
-
-      const xRanges = {
-        price: {
-          min: spotPrice * 0.7,
-          max: spotPrice * 1.3,
-          steps: 30,
-          current: spotPrice,
-        },
-        strike: {
-          min: strikePrice * 0.7,
-          max: strikePrice * 1.3,
-          steps: 30,
-          current: strikePrice,
-        },
-        time: { min: 0.1, max: 2, steps: 30, current: timeToExpiry },
-        volatility: { min: 0.05, max: 0.6, steps: 30, current: volatility },
-        interest: { min: 0.01, max: 0.1, steps: 30, current: interestRate },
-      };
-
-      const yRanges = { ...xRanges };
-
-      const xRange = xRanges[xParam];
-      const yRange = yRanges[yParam];
-
-      const xStep = (xRange.max - xRange.min) / xRange.steps;
-      const yStep = (yRange.max - yRange.min) / yRange.steps;
-
-      for (let i = 0; i <= xRange.steps; i++) {
-        const xValue = xRange.min + i * xStep;
-
-        for (let j = 0; j <= yRange.steps; j++) {
-          const yValue = yRange.min + j * yStep;
-
-          const params: OptionParams = {
-            type: optionType,
-            S: spotPrice,
-            K: strikePrice,
-            T: timeToExpiry,
-            r: interestRate,
-            sigma: volatility,
-          };
-
-          if (xParam === "price") params.S = xValue;
-          if (xParam === "strike") params.K = xValue;
-          if (xParam === "time") params.T = xValue;
-          if (xParam === "volatility") params.sigma = xValue;
-          if (xParam === "interest") params.r = xValue;
-
-          if (yParam === "price") params.S = yValue;
-          if (yParam === "strike") params.K = yValue;
-          if (yParam === "time") params.T = yValue;
-          if (yParam === "volatility") params.sigma = yValue;
-          if (yParam === "interest") params.r = yValue;
-
-          const result = calculateGreeks(
-            params.type,
-            params.S,
-            params.K,
-            params.T,
-            params.r,
-            params.sigma
-          );
-
-          data.push({
-            x: xValue,
-            y: yValue,
-            z: result.price,
-          });
-        }
-      }
-
-      processCalculatorResult({ task: "3dDataResult", data });
-    } else if (task === "calculatePortfolio") {
-      const { options, xAxis, range } = params as PortfolioParams;
-      const results = [];
-
-      const min = range.min;
-      const max = range.max;
-      const steps = 50;
-      const step = (max - min) / steps;
-
-      for (let i = 0; i <= steps; i++) {
-        const xValue = min + i * step;
-        let totalDelta = 0;
-        let totalGamma = 0;
-        let totalTheta = 0;
-        let totalVega = 0;
-        let totalRho = 0;
-        let totalValue = 0;
-
-        options.forEach((option) => {
-          const params = { ...option };
-
-          if (xAxis === "price") params.S = xValue;
-          if (xAxis === "time") params.T = xValue;
-          if (xAxis === "volatility") params.sigma = xValue;
-          if (xAxis === "interest") params.r = xValue;
-
-          const { delta, gamma, theta, vega, rho, price } = calculateGreeks(
-            params.type,
-            params.S,
-            params.K,
-            params.T,
-            params.r,
-            params.sigma
-          );
-
-          const sign = params.position === "long" ? 1 : -1;
-          const qty = params.quantity || 1;
-
-          totalDelta += delta * sign * qty;
-          totalGamma += gamma * sign * qty;
-          totalTheta += theta * sign * qty;
-          totalVega += vega * sign * qty;
-          totalRho += rho * sign * qty;
-          totalValue += price * sign * qty;
-        });
-
-        results.push({
-          parameter: xValue,
-          delta: totalDelta,
-          gamma: totalGamma,
-          theta: totalTheta,
-          vega: totalVega,
-          rho: totalRho,
-          value: totalValue,
-        });
+    } else if (task === "scenarioResult") {
+      setScenarioResults(results as ScenarioResult[]);
+    } else if (task === "monteCarloResult" && monteCarlo) {
+      setMonteCarloResult(monteCarlo);
+    } else if (task === "hedgeResult" && hedge) {
+      setHedgeProposal(hedge);
+    } else if (task === "hedgeSimulationResult" && hedgeSimulation) {
+      setHedgeSimulation(hedgeSimulation);
+    } else if (task === "framesResult" && animation) {
+      setAnimation(animation);
+    } else if (task === "impliedVolatilityResult" && impliedVolatility) {
+      setIvStatus(impliedVolatility.status);
+      if (impliedVolatility.status === "ok") {
+        setVolatility(impliedVolatility.sigma);
       }
-
-      processCalculatorResult({ task: "portfolioResult", results });
     }
   };
 
@@ -476,22 +843,102 @@ const OptionGreeksVisualization: React.FC = () => {
     }
   };
 
+  // Switching between lognormal and normal vols carries the ATM vol across
+  // (σN ≈ σ·F) and pulls prices and the rate back inside the new model's
+  // limits
+  const changeModel = (next: PricingModel) => {
+    const nextLimits = MODEL_LIMITS[next];
+    const clampPrice = (value: number) =>
+      Math.min(Math.max(value, nextLimits.minPrice), nextLimits.maxPrice);
+    const nextSpot = clampPrice(spotPrice);
+    setVolatility(convertVolatility(volatility, model, next, nextSpot));
+    setSpotPrice(nextSpot);
+    setStrikePrice(clampPrice(strikePrice));
+    setInterestRate(
+      Math.min(Math.max(interestRate, nextLimits.minRate), nextLimits.maxRate)
+    );
+    setMarketPrice("");
+    setModel(next);
+  };
+
+  // Legs hold whole contracts, so the proposed quantity is rounded
+  const addHedgeLeg = () => {
+    if (!hedgeProposal) return;
+    const quantity = Math.round(Math.abs(hedgeProposal.optionQuantity));
+    if (quantity === 0) return;
+    setOptions([
+      ...options,
+      {
+        ...hedgeInstrument,
+        position: hedgeProposal.optionQuantity > 0 ? "long" : "short",
+        quantity,
+        expiry: hedgeSettings.instrumentExpiry,
+        entryPrice: hedgeProposal.instrument.price,
+      },
+    ]);
+  };
+
   const addOption = () => {
     setOptions([
       ...options,
       {
         type: "call",
+        exercise: "european",
+        model,
         position: "long",
         quantity: 1,
         S: spotPrice,
         K: strikePrice,
         T: timeToExpiry,
         r: interestRate,
+        q: dividendYield,
         sigma: volatility,
+        expiry: expiryDate,
+        entryPrice: jsCalculateGreeks(
+          "call",
+          spotPrice,
+          strikePrice,
+          timeToExpiry,
+          interestRate,
+          dividendYield,
+          volatility,
+          model
+        ).price,
       },
     ]);
   };
 
+  const updateSweepRange = (mode: SweepMode, axis: string, range: SweepRange) =>
+    setSweepSettings((settings) => ({
+      ...settings,
+      [mode]: { ...settings[mode], [axis]: range },
+    }));
+
+  const applyStrategy = (
+    template: StrategyTemplate,
+    center: number,
+    width: number,
+    quantity: number
+  ) => {
+    setOptions(
+      buildStrategy(template, {
+        center,
+        width,
+        quantity,
+        S: spotPrice,
+        T: timeToExpiry,
+        r: interestRate,
+        q: dividendYield,
+        sigma: volatility,
+        model,
+      }).map((leg) => ({
+        ...leg,
+        expiry: expiryFromYearFraction(valuationDate, leg.T, dayCount),
+      }))
+    );
+    setIsDropdownOpen(true);
+  };
+
   const updateOption = (
     index: number,
     field: keyof PortfolioOption,
@@ -499,6 +946,25 @@ const OptionGreeksVisualization: React.FC = () => {
   ) => {
     const newOptions = [...options];
     newOptions[index] = { ...newOptions[index], [field]: value };
+    // Keep the year fraction in step for anything that reads T directly
+    if (field === "expiry") {
+      newOptions[index].T = yearFraction(valuationDate, value, dayCount);
+    }
+    // A leg moved between lognormal and normal vols keeps its price level
+    if (field === "model") {
+      const previous = options[index].model ?? "blackScholes";
+      const { minPrice, maxPrice } = MODEL_LIMITS[value as PricingModel];
+      newOptions[index].sigma = convertVolatility(
+        options[index].sigma,
+        previous,
+        value,
+        spotPrice
+      );
+      newOptions[index].K = Math.min(
+        Math.max(options[index].K, minPrice),
+        maxPrice
+      );
+    }
     setOptions(newOptions);
   };
 
@@ -518,51 +984,291 @@ const OptionGreeksVisualization: React.FC = () => {
         return "Implied Volatility";
       case "interest":
         return "Interest Rate";
+      case "dividend":
+        return "Dividend Yield";
       case "moneyness":
         return "Moneyness (S/K)";
+      case "elapsed":
+        return "Time Elapsed (Years)";
+      case "volShift":
+        return "Volatility Shift";
       default:
         return "";
     }
   };
 
+  const getGreekLabel = (greek: keyof Greeks): string => {
+    const day = dayCount.convention === "BUS/252" ? "trading day" : "day";
+    switch (greek) {
+      case "delta":
+        return "Delta";
+      case "gamma":
+        return "Gamma";
+      case "theta":
+        return `Theta (per ${day})`;
+      case "vega":
+        return "Vega (per 1% vol)";
+      case "rho":
+        return "Rho (per 1% rate)";
+      case "price":
+        return "Option Price";
+      case "vanna":
+        return "Vanna (per 1% vol)";
+      case "volga":
+        return "Volga (per 1% vol)";
+      case "charm":
+        return `Charm (per ${day})`;
+      case "speed":
+        return "Speed";
+      case "color":
+        return `Color (per ${day})`;
+      case "zomma":
+        return "Zomma (per 1% vol)";
+    }
+  };
+
+  const getImpliedVolatilityMessage = (
+    status: ImpliedVolatilityStatus
+  ): string => {
+    switch (status) {
+      case "ok":
+        return "Volatility solved from market price";
+      case "belowIntrinsic":
+        return "Price is below the no-arbitrage lower bound";
+      case "aboveUpperBound":
+        return "Price is above the no-arbitrage upper bound";
+      case "noConvergence":
+        return "Solver did not converge";
+      case "invalidInput":
+        return "Market price must be positive";
+    }
+  };
+
   const formatTooltip = (value: number): string => {
+    if (HIGHER_ORDER_GREEKS.includes(greek)) return value.toExponential(3);
     return greek === "theta" ? value.toFixed(4) : value.toFixed(5);
   };
 
+  const renderTimeDecay = () => {
+    if (!canAnimate) return null;
+    if (!isAnimating) {
+      return (
+        <button
+          onClick={() => setIsAnimating(true)}
+          className="mt-2 px-3 py-1 rounded border hover:border-black text-sm"
+        >
+          Animate Time Decay
+        </button>
+      );
+    }
+    return (
+      <div className="flex items-start gap-2">
+        <div className="flex-1">
+          <TimeDecayPlayer
+            frameDays={frameDays}
+            frameIndex={frameIndex}
+            setFrameIndex={setFrameIndex}
+            daysPerFrame={daysPerFrame}
+            setDaysPerFrame={setDaysPerFrame}
+            isReady={frames !== null}
+          />
+        </div>
+        <button
+          onClick={() => {
+            setIsAnimating(false);
+            setAnimation(null);
+            setFrameIndex(0);
+          }}
+          className="mt-2 px-3 py-1 rounded border hover:border-black text-sm"
+        >
+          Close
+        </button>
+      </div>
+    );
+  };
+
   const renderVisualization = () => {
-    if (visualizationMode === "2d") {
+    if (visualizationMode === "2d" && twoDChartType === "boundary") {
       return (
-        <TwoDChart
-          chartData={chartData}
-          parameter={parameter}
-          greek={greek}
-          getAxisLabel={getAxisLabel}
-          formatTooltip={formatTooltip}
-        />
+        <>
+          <TwoDChart
+            chartData={chartData}
+            parameter="time"
+            greek="price"
+            valueLabel="Critical Price"
+            getAxisLabel={getAxisLabel}
+            formatTooltip={(value) => value.toFixed(2)}
+          />
+          {chartData.length === 0 && (
+            <div className="text-sm text-gray-600">
+              Early exercise is never optimal for these parameters
+            </div>
+          )}
+        </>
+      );
+    } else if (visualizationMode === "2d") {
+      const labels = labelComparisonSeries([liveSeries, ...comparisons]);
+      const normalize = normalizeSeries && comparisons.length > 0;
+      const rightGreeks = [
+        ...new Set(comparisons.map((series) => series.greek)),
+      ].filter((seriesGreek) => seriesGreek !== greek);
+      const data = activeFrame
+        ? (activeFrame.data as ChartDataPoint[])
+        : chartData;
+      return (
+        <>
+          <TwoDChart
+            chartData={normalize ? normalizeChartData(data) : data}
+            parameter={parameter}
+            greek={greek}
+            valueLabel={normalize ? "Normalised" : undefined}
+            seriesLabels={comparisons.length > 0 ? labels : undefined}
+            seriesAxes={[liveSeries, ...comparisons].map((series) =>
+              !normalize && series.greek !== greek ? "right" : "left"
+            )}
+            rightAxisLabel={rightGreeks.map(getGreekLabel).join(", ")}
+            yDomain={
+              activeFrame && !normalize && rightGreeks.length === 0
+                ? frameRange
+                : undefined
+            }
+            getAxisLabel={getAxisLabel}
+            formatTooltip={
+              normalize ? (value) => value.toFixed(3) : formatTooltip
+            }
+          />
+          <ComparisonBar
+            comparisons={comparisons}
+            labels={labels.slice(1)}
+            normalize={normalizeSeries}
+            setNormalize={setNormalizeSeries}
+            onPin={() =>
+              setComparisons([
+                ...comparisons,
+                { ...liveSeries, id: Date.now().toString(36) },
+              ])
+            }
+            onRemove={(id) =>
+              setComparisons(comparisons.filter((series) => series.id !== id))
+            }
+            onClear={() => setComparisons([])}
+          />
+          {renderTimeDecay()}
+        </>
       );
     } else if (visualizationMode === "3d") {
+      return (
+        <>
+          <ThreeDChart
+            data={
+              activeFrame
+                ? (activeFrame.data as SurfaceDataPoint[])
+                : surfaceData
+            }
+            xLabel={getAxisLabel(xParameter)}
+            yLabel={getAxisLabel(yParameter)}
+            zLabel={getGreekLabel(greek)}
+            greek={greek}
+            zRange={activeFrame ? frameRange : undefined}
+          />
+          {renderTimeDecay()}
+        </>
+      );
+    } else if (visualizationMode === "volSurface") {
       return (
         <ThreeDChart
           data={surfaceData}
-          xLabel={getAxisLabel(xParameter)}
-          yLabel={getAxisLabel(yParameter)}
-          zLabel="Option Price"
+          xLabel="Strike Price"
+          yLabel="Time to Expiry (Years)"
+          zLabel="Implied Volatility"
+          greek="impliedVolatility"
         />
       );
-    } else if (visualizationMode === "portfolio") {
+    } else if (visualizationMode === "scenarios") {
+      const gridSize = SCENARIO_SPOT_SHOCKS.length * SCENARIO_VOL_SHOCKS.length;
       return (
-        <PortfolioChart
-          options={options}
-          portfolioData={portfolioData}
-          portfolioParam={portfolioParam}
-          isDropdownOpen={isDropdownOpen}
-          setIsDropdownOpen={setIsDropdownOpen}
-          updateOption={updateOption}
-          removeOption={removeOption}
-          addOption={addOption}
-          getAxisLabel={getAxisLabel}
+        <ScenarioGrid
+          gridResults={scenarioResults.slice(0, gridSize)}
+          savedScenarios={savedScenarios}
+          savedResults={scenarioResults.slice(gridSize)}
+          daysForward={scenarioDays}
+          setDaysForward={setScenarioDays}
+          onSaveScenario={(scenario) =>
+            setSavedScenarios([...savedScenarios, scenario])
+          }
+          onDeleteScenario={(index) =>
+            setSavedScenarios(savedScenarios.filter((_, i) => i !== index))
+          }
         />
       );
+    } else if (visualizationMode === "portfolio") {
+      return (
+        <>
+          <WorkspaceBar store={workspace} setStore={setWorkspace} />
+          <StrategyPicker
+            defaultCenter={Math.round(spotPrice)}
+            onApply={applyStrategy}
+          />
+          <ChainImporter
+            valuationDate={valuationDate}
+            dayCount={dayCount}
+            spotPrice={spotPrice}
+            interestRate={interestRate}
+            dividendYield={dividendYield}
+            volatility={volatility}
+            onAddLeg={(option) =>
+              setOptions([
+                ...options,
+                {
+                  ...option,
+                  // Chains quoted in years or days carry no date of their own
+                  expiry:
+                    option.expiry ??
+                    expiryFromYearFraction(valuationDate, option.T, dayCount),
+                },
+              ])
+            }
+          />
+          <PortfolioChart
+            options={portfolioLegs}
+            legWarnings={legWarnings}
+            portfolioData={
+              activeFrame
+                ? (activeFrame.data as PortfolioDataPoint[])
+                : portfolioData
+            }
+            portfolioParam={portfolioParam}
+            isDropdownOpen={isDropdownOpen}
+            setIsDropdownOpen={setIsDropdownOpen}
+            updateOption={updateOption}
+            removeOption={removeOption}
+            addOption={addOption}
+            getAxisLabel={getAxisLabel}
+          />
+          {renderTimeDecay()}
+          <HedgingPanel
+            isOpen={isHedgingOpen}
+            setIsOpen={setIsHedgingOpen}
+            settings={hedgeSettings}
+            setSettings={setHedgeSettings}
+            instrumentT={hedgeInstrument.T}
+            proposal={hedgeProposal}
+            simulation={hedgeSimulation}
+            onAddHedgeLeg={addHedgeLeg}
+          />
+          <MonteCarloChart
+            result={monteCarloResult}
+            horizonDays={horizonDays}
+            setHorizonDays={setHorizonDays}
+            paths={monteCarloPaths}
+            setPaths={setMonteCarloPaths}
+            seed={monteCarloSeed}
+            setSeed={setMonteCarloSeed}
+            confidence={confidence}
+            setConfidence={setConfidence}
+          />
+        </>
+      );
     }
   };
 
@@ -605,10 +1311,39 @@ const OptionGreeksVisualization: React.FC = () => {
             >
               Portfolio Analysis
             </button>
+            <button
+              className={`px-3 py-1 rounded border ${
+                visualizationMode === "volSurface" ? "" : "border-transparent"
+              }`}
+              onClick={() => setVisualizationMode("volSurface")}
+            >
+              Vol Surface
+            </button>
+            <button
+              className={`px-3 py-1 rounded border ${
+                visualizationMode === "scenarios" ? "" : "border-transparent"
+              }`}
+              onClick={() => setVisualizationMode("scenarios")}
+            >
+              Stress Test
+            </button>
           </div>
         </div>
         {visualizationMode === "2d" && (
           <div className="flex flex-wrap gap-4 mb-4 justify-center">
+            <div>
+              <label className="mr-2 font-medium">Chart:</label>
+              <select
+                value={twoDChartType}
+                onChange={(e) =>
+                  setTwoDChartType(e.target.value as TwoDChartType)
+                }
+                className="border rounded p-1"
+              >
+                <option value="greeks">Greeks</option>
+                <option value="boundary">Early Exercise Boundary</option>
+              </select>
+            </div>
             <div>
               <label className="mr-2 font-medium">Option Type:</label>
               <select
@@ -622,6 +1357,29 @@ const OptionGreeksVisualization: React.FC = () => {
                 <option value="put">Put</option>
               </select>
             </div>
+          </div>
+        )}
+        {visualizationMode === "2d" && twoDChartType === "greeks" && (
+          <div className="flex flex-wrap gap-4 mb-4 justify-center">
+            <div>
+              <label className="mr-2 font-medium">Exercise:</label>
+              <select
+                value={europeanOnly ? "european" : exerciseStyle}
+                disabled={europeanOnly}
+                onChange={(e) =>
+                  setExerciseStyle(e.target.value as ExerciseStyle)
+                }
+                className="border rounded p-1"
+              >
+                <option value="european">European</option>
+                <option value="american">American</option>
+              </select>
+            </div>
+            <ExoticTermsFields
+              terms={exotic}
+              onChange={setExotic}
+              disabled={model !== "blackScholes"}
+            />
             <div>
               <label className="mr-2 font-medium">Greek:</label>
               <select
@@ -637,31 +1395,37 @@ const OptionGreeksVisualization: React.FC = () => {
                 <option value="vega">Vega</option>
                 <option value="rho">Rho</option>
                 <option value="price">Price</option>
+                <option value="vanna">Vanna</option>
+                <option value="volga">Volga</option>
+                <option value="charm">Charm</option>
+                <option value="speed">Speed</option>
+                <option value="color">Color</option>
+                <option value="zomma">Zomma</option>
               </select>
             </div>
             <div>
               <label className="mr-2 font-medium">X-Axis:</label>
               <select
                 value={parameter}
-                onChange={(e) =>
-                  setParameter(
-                    e.target.value as
-                      | "price"
-                      | "time"
-                      | "volatility"
-                      | "interest"
-                      | "moneyness"
-                  )
-                }
+                onChange={(e) => setParameter(e.target.value as TwoDParameter)}
                 className="border rounded p-1"
               >
                 <option value="price">Underlying Price</option>
                 <option value="time">Time to Expiry</option>
                 <option value="volatility">Volatility</option>
                 <option value="interest">Interest Rate</option>
+                <option value="dividend">Dividend Yield</option>
                 <option value="moneyness">Moneyness (S/K)</option>
               </select>
             </div>
+            <SweepRangeEditor
+              key={`twoD-${parameter}`}
+              label="Range"
+              mode="twoD"
+              axis={parameter}
+              range={sweepSettings.twoD[parameter]}
+              onChange={(range) => updateSweepRange("twoD", parameter, range)}
+            />
           </div>
         )}
         {visualizationMode === "3d" && (
@@ -679,19 +1443,54 @@ const OptionGreeksVisualization: React.FC = () => {
                 <option value="put">Put</option>
               </select>
             </div>
+            <div>
+              <label className="mr-2 font-medium">Exercise:</label>
+              <select
+                value={europeanOnly ? "european" : exerciseStyle}
+                disabled={europeanOnly}
+                onChange={(e) =>
+                  setExerciseStyle(e.target.value as ExerciseStyle)
+                }
+                className="border rounded p-1"
+              >
+                <option value="european">European</option>
+                <option value="american">American</option>
+              </select>
+            </div>
+            <ExoticTermsFields
+              terms={exotic}
+              onChange={setExotic}
+              disabled={model !== "blackScholes"}
+            />
+            <div>
+              <label className="mr-2 font-medium">Greek:</label>
+              <select
+                value={greek}
+                onChange={(e) =>
+                  setGreek(e.target.value as keyof Greeks | "price")
+                }
+                className="border rounded p-1"
+              >
+                <option value="delta">Delta</option>
+                <option value="gamma">Gamma</option>
+                <option value="theta">Theta</option>
+                <option value="vega">Vega</option>
+                <option value="rho">Rho</option>
+                <option value="price">Price</option>
+                <option value="vanna">Vanna</option>
+                <option value="volga">Volga</option>
+                <option value="charm">Charm</option>
+                <option value="speed">Speed</option>
+                <option value="color">Color</option>
+                <option value="zomma">Zomma</option>
+              </select>
+            </div>
             <div>
               <label className="mr-2 font-medium">X-Axis:</label>
               <select
                 value={xParameter}
                 onChange={(e) =>
-                  setXParameter(
-                    e.target.value as
-                      | "price"
-                      | "strike"
-                      | "time"
-                      | "volatility"
-                      | "interest"
-                  )
+                  setXParameter(e.target.value as keyof ThreeDRanges)
                 }
                 className="border rounded p-1"
               >
@@ -700,6 +1499,7 @@ const OptionGreeksVisualization: React.FC = () => {
                 <option value="time">Time to Expiry</option>
                 <option value="volatility">Volatility</option>
                 <option value="interest">Interest Rate</option>
+                <option value="dividend">Dividend Yield</option>
               </select>
             </div>
             <div>
@@ -707,14 +1507,7 @@ const OptionGreeksVisualization: React.FC = () => {
               <select
                 value={yParameter}
                 onChange={(e) =>
-                  setYParameter(
-                    e.target.value as
-                      | "price"
-                      | "strike"
-                      | "time"
-                      | "volatility"
-                      | "interest"
-                  )
+                  setYParameter(e.target.value as keyof ThreeDRanges)
                 }
                 className="border rounded p-1"
               >
@@ -723,8 +1516,29 @@ const OptionGreeksVisualization: React.FC = () => {
                 <option value="time">Time to Expiry</option>
                 <option value="volatility">Volatility</option>
                 <option value="interest">Interest Rate</option>
+                <option value="dividend">Dividend Yield</option>
               </select>
             </div>
+            <SweepRangeEditor
+              key={`threeD-x-${xParameter}`}
+              label="X Range"
+              mode="threeD"
+              axis={xParameter}
+              range={sweepSettings.threeD[xParameter]}
+              onChange={(range) =>
+                updateSweepRange("threeD", xParameter, range)
+              }
+            />
+            <SweepRangeEditor
+              key={`threeD-y-${yParameter}`}
+              label="Y Range"
+              mode="threeD"
+              axis={yParameter}
+              range={sweepSettings.threeD[yParameter]}
+              onChange={(range) =>
+                updateSweepRange("threeD", yParameter, range)
+              }
+            />
           </div>
         )}
         {visualizationMode === "portfolio" && (
@@ -734,32 +1548,107 @@ const OptionGreeksVisualization: React.FC = () => {
               <select
                 value={portfolioParam}
                 onChange={(e) =>
-                  setPortfolioParam(
-                    e.target.value as
-                      | "price"
-                      | "time"
-                      | "volatility"
-                      | "interest"
-                  )
+                  setPortfolioParam(e.target.value as PortfolioAxis)
                 }
                 className="border rounded p-1"
               >
                 <option value="price">Underlying Price</option>
-                <option value="time">Time to Expiry</option>
-                <option value="volatility">Volatility</option>
+                <option value="elapsed">Time Elapsed</option>
+                <option value="volShift">Volatility Shift</option>
                 <option value="interest">Interest Rate</option>
+                <option value="dividend">Dividend Yield</option>
               </select>
             </div>
+            <SweepRangeEditor
+              key={`portfolio-${portfolioParam}`}
+              label="Range"
+              mode="portfolio"
+              axis={portfolioParam}
+              range={sweepSettings.portfolio[portfolioParam]}
+              onChange={(range) =>
+                updateSweepRange("portfolio", portfolioParam, range)
+              }
+            />
+            <div>
+              <label className="mr-2 font-medium">Vol Shift:</label>
+              <input
+                type="number"
+                value={volShift}
+                onChange={(e) =>
+                  handleInputChange(setVolShift, e.target.value, -1, 1)
+                }
+                className="border rounded p-1 w-20"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label className="mr-2 font-medium">Days Forward:</label>
+              <input
+                type="number"
+                value={daysForward}
+                onChange={(e) =>
+                  handleInputChange(setDaysForward, e.target.value, 0, 3650)
+                }
+                className="border rounded p-1 w-20"
+                step="1"
+              />
+            </div>
+          </div>
+        )}
+        {visualizationMode === "volSurface" && (
+          <div className="flex flex-wrap gap-4 mb-4 justify-center">
+            <SweepRangeEditor
+              key="volSurface-strike"
+              label="Strike Range"
+              mode="volSurface"
+              axis="strike"
+              range={sweepSettings.volSurface.strike}
+              onChange={(range) =>
+                updateSweepRange("volSurface", "strike", range)
+              }
+            />
+            <SweepRangeEditor
+              key="volSurface-time"
+              label="Time Range"
+              mode="volSurface"
+              axis="time"
+              range={sweepSettings.volSurface.time}
+              onChange={(range) =>
+                updateSweepRange("volSurface", "time", range)
+              }
+            />
           </div>
         )}
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-8 gap-2 mb-4">
+          <div>
+            <label className="block text-sm font-medium">Model:</label>
+            <select
+              value={model}
+              disabled={isExotic || exerciseStyle === "american"}
+              onChange={(e) => changeModel(e.target.value as PricingModel)}
+              className="border rounded p-1 w-full"
+            >
+              {Object.entries(MODEL_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
           <div>
-            <label className="block text-sm font-medium">Spot Price:</label>
+            <label className="block text-sm font-medium">
+              {spotLabel(model)}:
+            </label>
             <input
               type="number"
               value={spotPrice}
               onChange={(e) =>
-                handleInputChange(setSpotPrice, e.target.value, 1, 1000)
+                handleInputChange(
+                  setSpotPrice,
+                  e.target.value,
+                  limits.minPrice,
+                  limits.maxPrice
+                )
               }
               className="border rounded p-1 w-full"
               step="1"
@@ -771,49 +1660,123 @@ const OptionGreeksVisualization: React.FC = () => {
               type="number"
               value={strikePrice}
               onChange={(e) =>
-                handleInputChange(setStrikePrice, e.target.value, 1, 1000)
+                handleInputChange(
+                  setStrikePrice,
+                  e.target.value,
+                  limits.minPrice,
+                  limits.maxPrice
+                )
               }
               className="border rounded p-1 w-full"
               step="1"
             />
           </div>
           <div>
-            <label className="block text-sm font-medium">Volatility:</label>
+            <label className="block text-sm font-medium">
+              {volatilityLabel(model)}:
+            </label>
             <input
               type="number"
               value={volatility}
-              onChange={(e) =>
-                handleInputChange(setVolatility, e.target.value, 0.01, 2)
-              }
+              onChange={(e) => {
+                setMarketPrice("");
+                handleInputChange(
+                  setVolatility,
+                  e.target.value,
+                  limits.minVol,
+                  limits.maxVol
+                );
+              }}
               className="border rounded p-1 w-full"
               step="0.01"
             />
           </div>
           <div>
-            <label className="block text-sm font-medium">Time (Years):</label>
+            <label className="block text-sm font-medium">Expiry Date:</label>
+            <input
+              type="date"
+              value={expiryDate}
+              min={valuationDate}
+              onChange={(e) => {
+                if (parseIsoDate(e.target.value)) setExpiryDate(e.target.value);
+              }}
+              className="border rounded p-1 w-full"
+            />
+            <div className="text-xs mt-1 text-gray-600">
+              T = {timeToExpiry.toFixed(4)} years
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">Interest Rate:</label>
             <input
               type="number"
-              value={timeToExpiry}
+              value={interestRate}
               onChange={(e) =>
-                handleInputChange(setTimeToExpiry, e.target.value, 0.01, 10)
+                handleInputChange(
+                  setInterestRate,
+                  e.target.value,
+                  limits.minRate,
+                  limits.maxRate
+                )
               }
+              min={limits.minRate}
+              max={limits.maxRate}
               className="border rounded p-1 w-full"
-              step="0.1"
+              step="0.01"
             />
           </div>
           <div>
-            <label className="block text-sm font-medium">Interest Rate:</label>
+            <label className="block text-sm font-medium">Dividend Yield:</label>
             <input
               type="number"
-              value={interestRate}
+              value={dividendYield}
               onChange={(e) =>
-                handleInputChange(setInterestRate, e.target.value, 0, 0.2)
+                handleInputChange(setDividendYield, e.target.value, 0, 0.2)
               }
               className="border rounded p-1 w-full"
               step="0.01"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium">Market Price:</label>
+            <input
+              type="number"
+              value={marketPrice}
+              onChange={(e) => setMarketPrice(e.target.value)}
+              disabled={isExotic || model === "bachelier"}
+              className="border rounded p-1 w-full"
+              placeholder={isExotic ? "Vanilla only" : IV_PLACEHOLDERS[model]}
+              step="0.01"
+            />
+            {ivStatus && (
+              <div
+                className={`text-xs mt-1 ${
+                  ivStatus === "ok" ? "text-gray-600" : "text-red-500"
+                }`}
+              >
+                {getImpliedVolatilityMessage(ivStatus)}
+              </div>
+            )}
+          </div>
         </div>
+        <DayCountPanel
+          valuationDate={valuationDate}
+          setValuationDate={setValuationDate}
+          settings={dayCount}
+          setSettings={setDayCount}
+        />
+        <VolSurfaceEditor
+          volSurface={volSurface}
+          setVolSurface={setVolSurface}
+        />
+        {LEG_MODES.includes(visualizationMode) &&
+          pricedLegs.length < portfolioLegs.length && (
+            <div className="text-sm text-red-500 mb-2">
+              {portfolioLegs.length - pricedLegs.length} of{" "}
+              {portfolioLegs.length} legs have invalid inputs and are left out
+              of pricing
+            </div>
+          )}
         {renderVisualization()}
         <div className="mt-6 p-4 bg-gray-100 rounded">
           <h3 className="font-bold">Current Option Parameters</h3>
@@ -836,14 +1799,32 @@ const OptionGreeksVisualization: React.FC = () => {
           </div>
         </div>
         <div className="mt-4 flex justify-end space-x-2">
+          <button
+            className="px-3 py-1 bg-gray-600 text-black rounded border border-transparent hover:border-black"
+            onClick={async () => {
+              try {
+                await navigator.clipboard.writeText(window.location.href);
+                setLinkCopied(true);
+                setTimeout(() => setLinkCopied(false), 2000);
+              } catch (error) {
+                console.error("Error copying link:", error);
+                alert("Failed to copy link. Copy it from the address bar.");
+              }
+            }}
+          >
+            {linkCopied ? "Link Copied" : "Copy Link"}
+          </button>
           <button
             className="px-3 py-1 bg-gray-600 text-black rounded border border-transparent hover:border-black"
             onClick={() => {
               const data =
                 visualizationMode === "2d"
                   ? chartData
-                  : visualizationMode === "3d"
+                  : visualizationMode === "3d" ||
+                    visualizationMode === "volSurface"
                   ? surfaceData
+                  : visualizationMode === "scenarios"
+                  ? scenarioResults
                   : portfolioData;
               const blob = new Blob([JSON.stringify(data)], {
                 type: "application/json",
@@ -859,7 +1840,8 @@ const OptionGreeksVisualization: React.FC = () => {
           >
             Export Data
           </button>
-          {visualizationMode !== "3d" && (
+          {(visualizationMode === "2d" ||
+            visualizationMode === "portfolio") && (
             <button
               className="px-3 py-1 bg-gray-600 text-black rounded border border-transparent hover:border-black"
               onClick={async () => {
@@ -0,0 +1,253 @@
+// ChainImporter.tsx
+import React from "react";
+import {
+  CHAIN_FIELDS,
+  buildOptionChain,
+  chainRowToOption,
+  guessColumnMapping,
+  parseChainFile,
+} from "../utils/optionChain";
+import {
+  ChainColumnMapping,
+  ChainRow,
+  DayCountSettings,
+  ExpiryUnit,
+  PortfolioOption,
+} from "../utils/types";
+
+const MAX_ERRORS_SHOWN = 5;
+
+interface ChainImporterProps {
+  valuationDate: string;
+  dayCount: DayCountSettings;
+  spotPrice: number;
+  interestRate: number;
+  dividendYield: number;
+  volatility: number;
+  onAddLeg: (option: PortfolioOption) => void;
+}
+
+const formatQuote = (value: number | null, digits: number = 2) =>
+  value === null ? "-" : value.toFixed(digits);
+
+const ChainImporter: React.FC<ChainImporterProps> = ({
+  valuationDate,
+  dayCount,
+  spotPrice,
+  interestRate,
+  dividendYield,
+  volatility,
+  onAddLeg,
+}) => {
+  const [isOpen, setIsOpen] = React.useState<boolean>(false);
+  const [headers, setHeaders] = React.useState<string[]>([]);
+  const [records, setRecords] = React.useState<Array<Record<string, string>>>(
+    []
+  );
+  const [mapping, setMapping] = React.useState<ChainColumnMapping>(() =>
+    guessColumnMapping([])
+  );
+  const [expiryUnit, setExpiryUnit] = React.useState<ExpiryUnit>("date");
+  const [fileError, setFileError] = React.useState<string | null>(null);
+
+  const chain = React.useMemo(
+    () =>
+      records.length > 0
+        ? buildOptionChain(
+            records,
+            mapping,
+            expiryUnit,
+            { S: spotPrice, r: interestRate, q: dividendYield },
+            valuationDate,
+            dayCount
+          )
+        : null,
+    [
+      records,
+      mapping,
+      expiryUnit,
+      spotPrice,
+      interestRate,
+      dividendYield,
+      valuationDate,
+      dayCount,
+    ]
+  );
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseChainFile(await file.text());
+      const guessed = guessColumnMapping(parsed.headers);
+      const firstExpiry = guessed.expiry
+        ? (parsed.records[0]?.[guessed.expiry] ?? "")
+        : "";
+      setHeaders(parsed.headers);
+      setRecords(parsed.records);
+      setMapping(guessed);
+      setExpiryUnit(/[-/]/.test(firstExpiry) ? "date" : "years");
+      setFileError(
+        parsed.records.length === 0 ? "The file contains no rows" : null
+      );
+    } catch (error) {
+      setHeaders([]);
+      setRecords([]);
+      setFileError(`Could not read file: ${(error as Error).message}`);
+    }
+  };
+
+  const addLeg = (row: ChainRow, position: PortfolioOption["position"]) => {
+    onAddLeg(
+      chainRowToOption(row, position, {
+        S: spotPrice,
+        r: interestRate,
+        q: dividendYield,
+        sigma: volatility,
+      })
+    );
+  };
+
+  return (
+    <div className="mb-4">
+      <h3
+        className="font-medium mb-2 cursor-pointer"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        Option Chain Import {isOpen ? "↑" : "↓"}
+      </h3>
+      {isOpen && (
+        <div>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+            className="mb-2"
+          />
+          {fileError && (
+            <div className="text-sm text-red-500 mb-2">{fileError}</div>
+          )}
+          {headers.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {CHAIN_FIELDS.map(({ key, label, required }) => (
+                <div key={key}>
+                  <label className="block text-sm">
+                    {label}
+                    {required && " *"}
+                  </label>
+                  <select
+                    value={mapping[key]}
+                    onChange={(e) =>
+                      setMapping({
+                        ...mapping,
+                        [key]: e.target.value,
+                      })
+                    }
+                    className="border rounded p-1"
+                  >
+                    <option value="">(none)</option>
+                    {headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <div>
+                <label className="block text-sm">Expiry Format</label>
+                <select
+                  value={expiryUnit}
+                  onChange={(e) => setExpiryUnit(e.target.value as ExpiryUnit)}
+                  className="border rounded p-1"
+                >
+                  <option value="date">Date</option>
+                  <option value="days">Days</option>
+                  <option value="years">Years</option>
+                </select>
+              </div>
+            </div>
+          )}
+          {chain && chain.errors.length > 0 && (
+            <div className="text-sm text-red-500 mb-2">
+              {chain.errors.slice(0, MAX_ERRORS_SHOWN).map((error, index) => (
+                <div key={index}>
+                  {error.line > 0 ? `Row ${error.line}: ` : ""}
+                  {error.message}
+                </div>
+              ))}
+              {chain.errors.length > MAX_ERRORS_SHOWN && (
+                <div>
+                  and {chain.errors.length - MAX_ERRORS_SHOWN} more problems
+                </div>
+              )}
+            </div>
+          )}
+          {chain && chain.rows.length > 0 && (
+            <div className="max-h-64 overflow-auto">
+              <table className="text-sm w-full">
+                <thead>
+                  <tr className="text-left">
+                    <th className="px-1">Type</th>
+                    <th className="px-1">Strike</th>
+                    <th className="px-1">Expiry (Years)</th>
+                    <th className="px-1">Bid</th>
+                    <th className="px-1">Ask</th>
+                    <th className="px-1">Mid</th>
+                    <th className="px-1">IV</th>
+                    <th className="px-1">Open Int.</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {chain.rows.map((row, index) => (
+                    <tr key={index}>
+                      <td className="px-1">{row.type}</td>
+                      <td className="px-1">{row.strike}</td>
+                      <td className="px-1">{row.expiry.toFixed(3)}</td>
+                      <td className="px-1">{formatQuote(row.bid)}</td>
+                      <td className="px-1">{formatQuote(row.ask)}</td>
+                      <td className="px-1">{formatQuote(row.mid)}</td>
+                      <td
+                        className="px-1"
+                        title={
+                          row.ivSource === "mid"
+                            ? "Solved from the mid price"
+                            : undefined
+                        }
+                      >
+                        {formatQuote(row.iv, 4)}
+                        {row.ivSource === "mid" && "*"}
+                      </td>
+                      <td className="px-1">{row.openInterest ?? "-"}</td>
+                      <td className="px-1 whitespace-nowrap">
+                        <button
+                          onClick={() => addLeg(row, "long")}
+                          className="text-blue-600 hover:text-blue-800 mr-2"
+                        >
+                          Buy
+                        </button>
+                        <button
+                          onClick={() => addLeg(row, "short")}
+                          className="text-red-500 hover:text-red-700"
+                        >
+                          Sell
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="text-xs text-gray-600 mt-1">
+                * IV back-filled from the mid price
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChainImporter;
@@ -0,0 +1,66 @@
+// ComparisonBar.tsx
+import React from "react";
+import { MAX_COMPARISON_SERIES } from "../utils/comparison";
+import { ComparisonSeries } from "../utils/types";
+
+interface ComparisonBarProps {
+  comparisons: ComparisonSeries[];
+  labels: string[];
+  normalize: boolean;
+  setNormalize: (normalize: boolean) => void;
+  onPin: () => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const ComparisonBar: React.FC<ComparisonBarProps> = ({
+  comparisons,
+  labels,
+  normalize,
+  setNormalize,
+  onPin,
+  onRemove,
+  onClear,
+}) => (
+  <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+    <button
+      onClick={onPin}
+      disabled={comparisons.length >= MAX_COMPARISON_SERIES}
+      className="px-3 py-1 rounded border hover:border-black"
+    >
+      Pin Series
+    </button>
+    {comparisons.map(({ id }, i) => (
+      <span key={id} className="px-2 py-1 rounded border bg-gray-50">
+        {labels[i]}
+        <button
+          onClick={() => onRemove(id)}
+          className="ml-2 text-red-500"
+          aria-label={`Remove ${labels[i]}`}
+        >
+          ×
+        </button>
+      </span>
+    ))}
+    {comparisons.length > 0 && (
+      <>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={normalize}
+            onChange={(e) => setNormalize(e.target.checked)}
+          />
+          Normalise
+        </label>
+        <button
+          onClick={onClear}
+          className="px-3 py-1 rounded border hover:border-black"
+        >
+          Clear
+        </button>
+      </>
+    )}
+  </div>
+);
+
+export default ComparisonBar;
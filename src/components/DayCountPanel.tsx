@@ -0,0 +1,112 @@
+// DayCountPanel.tsx
+import React from "react";
+import { DayCountConvention, DayCountSettings } from "../utils/types";
+import { DAY_COUNT_CONVENTIONS, parseIsoDate } from "../utils/dayCount";
+
+interface DayCountPanelProps {
+  valuationDate: string;
+  setValuationDate: (date: string) => void;
+  settings: DayCountSettings;
+  setSettings: (settings: DayCountSettings) => void;
+}
+
+const DayCountPanel: React.FC<DayCountPanelProps> = ({
+  valuationDate,
+  setValuationDate,
+  settings,
+  setSettings,
+}) => {
+  const [isEditingHolidays, setIsEditingHolidays] =
+    React.useState<boolean>(false);
+  const [holidayText, setHolidayText] = React.useState<string>(
+    settings.holidays.join("\n")
+  );
+  const invalidHolidays = holidayText
+    .split(/[\s,]+/)
+    .filter((date) => date !== "" && !parseIsoDate(date));
+
+  const updateHolidays = (text: string) => {
+    setHolidayText(text);
+    const dates = text.split(/[\s,]+/).filter((date) => date !== "");
+    if (dates.every((date) => parseIsoDate(date))) {
+      setSettings({ ...settings, holidays: [...new Set(dates)].sort() });
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div>
+          <label className="mr-2 font-medium">Valuation Date:</label>
+          <input
+            type="date"
+            value={valuationDate}
+            onChange={(e) => {
+              if (parseIsoDate(e.target.value)) {
+                setValuationDate(e.target.value);
+              }
+            }}
+            className="border rounded p-1"
+          />
+        </div>
+        <div>
+          <label className="mr-2 font-medium">Day Count:</label>
+          <select
+            value={settings.convention}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                convention: e.target.value as DayCountConvention,
+              })
+            }
+            className="border rounded p-1"
+          >
+            {DAY_COUNT_CONVENTIONS.map((convention) => (
+              <option key={convention} value={convention}>
+                {convention === "BUS/252" ? "Trading days / 252" : convention}
+              </option>
+            ))}
+          </select>
+        </div>
+        {settings.convention === "BUS/252" && (
+          <button
+            onClick={() => setIsEditingHolidays(!isEditingHolidays)}
+            className="px-3 py-1 rounded border hover:border-black text-sm"
+          >
+            Holidays {isEditingHolidays ? "▲" : "▼"}
+          </button>
+        )}
+      </div>
+      {settings.convention === "BUS/252" && isEditingHolidays && (
+        <div className="mt-2">
+          <label className="flex items-center gap-2 text-sm mb-1">
+            <input
+              type="checkbox"
+              checked={settings.marketHolidays ?? true}
+              onChange={(e) =>
+                setSettings({ ...settings, marketHolidays: e.target.checked })
+              }
+            />
+            US market holidays (NYSE rules, any year)
+          </label>
+          <textarea
+            value={holidayText}
+            onChange={(e) => updateHolidays(e.target.value)}
+            rows={6}
+            className="border rounded p-1 w-64 font-mono text-sm"
+            placeholder="Other closures, one YYYY-MM-DD date per line"
+          />
+          <div className="flex items-center gap-2 text-sm">
+            {invalidHolidays.length > 0 && (
+              <span className="text-red-500">
+                Not a date: {invalidHolidays.slice(0, 3).join(", ")}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DayCountPanel;
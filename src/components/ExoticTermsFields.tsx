@@ -0,0 +1,124 @@
+// ExoticTermsFields.tsx
+import React from "react";
+import {
+  BARRIER_LABELS,
+  MAX_ASIAN_FIXINGS,
+  PAYOFF_LABELS,
+} from "../utils/exotics";
+import { BarrierType, ExoticTerms, PayoffStyle } from "../utils/types";
+
+interface ExoticTermsFieldsProps {
+  terms: ExoticTerms;
+  onChange: (terms: ExoticTerms) => void;
+  // Labels above full-width inputs, as in the portfolio leg grid
+  stacked?: boolean;
+  disabled?: boolean;
+}
+
+const ExoticTermsFields: React.FC<ExoticTermsFieldsProps> = ({
+  terms,
+  onChange,
+  stacked = false,
+  disabled = false,
+}) => {
+  const labelClass = stacked ? "block text-sm" : "mr-2 font-medium";
+  const inputClass = stacked
+    ? "border rounded p-1 w-full"
+    : "border rounded p-1";
+  const numberClass = stacked ? inputClass : `${inputClass} w-20`;
+  const suffix = stacked ? "" : ":";
+  const update = <K extends keyof ExoticTerms>(key: K, value: ExoticTerms[K]) =>
+    onChange({ ...terms, [key]: value });
+
+  return (
+    <>
+      <div>
+        <label className={labelClass}>Payoff{suffix}</label>
+        <select
+          value={terms.payoff}
+          onChange={(e) => update("payoff", e.target.value as PayoffStyle)}
+          disabled={disabled}
+          className={inputClass}
+        >
+          {Object.entries(PAYOFF_LABELS).map(([payoff, label]) => (
+            <option key={payoff} value={payoff}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {terms.payoff === "cashDigital" && (
+        <div>
+          <label className={labelClass}>Payout{suffix}</label>
+          <input
+            type="number"
+            value={terms.cashPayout}
+            onChange={(e) =>
+              update("cashPayout", Math.max(parseFloat(e.target.value) || 0, 0))
+            }
+            min="0"
+            className={numberClass}
+          />
+        </div>
+      )}
+      {terms.payoff === "barrier" && (
+        <>
+          <div>
+            <label className={labelClass}>Barrier Type{suffix}</label>
+            <select
+              value={terms.barrierType}
+              onChange={(e) =>
+                update("barrierType", e.target.value as BarrierType)
+              }
+              className={inputClass}
+            >
+              {Object.entries(BARRIER_LABELS).map(([barrierType, label]) => (
+                <option key={barrierType} value={barrierType}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Barrier{suffix}</label>
+            <input
+              type="number"
+              value={terms.barrier}
+              onChange={(e) =>
+                update(
+                  "barrier",
+                  Math.max(parseFloat(e.target.value) || 0, 0.01)
+                )
+              }
+              min="0.01"
+              className={numberClass}
+            />
+          </div>
+        </>
+      )}
+      {terms.payoff === "asian" && (
+        <div>
+          <label className={labelClass}>Fixings{suffix}</label>
+          <input
+            type="number"
+            value={terms.fixings}
+            onChange={(e) =>
+              update(
+                "fixings",
+                Math.min(
+                  Math.max(parseInt(e.target.value) || 1, 1),
+                  MAX_ASIAN_FIXINGS
+                )
+              )
+            }
+            min="1"
+            max={MAX_ASIAN_FIXINGS}
+            className={numberClass}
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ExoticTermsFields;
@@ -0,0 +1,472 @@
+// HedgingPanel.tsx
+import React, { useRef } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import {
+  MAX_HEDGE_DAYS,
+  MAX_HEDGE_PATHS,
+  SKETCH_POINTS,
+} from "../utils/hedging";
+import {
+  HedgeProposal,
+  HedgeSettings,
+  HedgeSimulationResult,
+  HedgeTarget,
+  HedgedGreeks,
+} from "../utils/types";
+
+interface HedgingPanelProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  settings: HedgeSettings;
+  setSettings: (settings: HedgeSettings) => void;
+  instrumentT: number;
+  proposal: HedgeProposal | null;
+  simulation: HedgeSimulationResult | null;
+  onAddHedgeLeg: () => void;
+}
+
+const TARGET_LABELS: Record<HedgeTarget, string> = {
+  delta: "Delta neutral (shares)",
+  gamma: "Gamma + delta neutral",
+  vega: "Vega + delta neutral",
+};
+
+const GREEK_ROWS: (keyof HedgedGreeks)[] = ["delta", "gamma", "vega", "theta"];
+
+// Sketch heights span this band of spot multiples
+const SKETCH_MIN = 0.5;
+const SKETCH_MAX = 1.5;
+const SKETCH_WIDTH = 400;
+const SKETCH_HEIGHT = 120;
+
+const tradeLabel = (quantity: number, what: string) =>
+  `${quantity >= 0 ? "Buy" : "Sell"} ${Math.abs(quantity).toFixed(2)} ${what}`;
+
+const PathSketch: React.FC<{
+  values: number[];
+  onChange: (values: number[]) => void;
+}> = ({ values, onChange }) => {
+  const lastIndex = useRef<number | null>(null);
+  const toY = (value: number) =>
+    ((SKETCH_MAX - value) / (SKETCH_MAX - SKETCH_MIN)) * SKETCH_HEIGHT;
+
+  // Fills every point between the previous and current pointer positions so
+  // fast strokes leave no gaps
+  const draw = (e: React.PointerEvent<SVGSVGElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(
+      Math.max((e.clientX - bounds.left) / bounds.width, 0),
+      1
+    );
+    const y = Math.min(
+      Math.max((e.clientY - bounds.top) / bounds.height, 0),
+      1
+    );
+    const index = Math.round(x * (SKETCH_POINTS - 1));
+    const value = SKETCH_MAX - y * (SKETCH_MAX - SKETCH_MIN);
+    const from = lastIndex.current ?? index;
+    const next = [...values];
+    const step = index >= from ? 1 : -1;
+    for (let i = from; i !== index + step; i += step) {
+      const weight = from === index ? 1 : (i - from) / (index - from);
+      next[i] = next[from] + weight * (value - next[from]);
+    }
+    next[0] = 1;
+    lastIndex.current = index;
+    onChange(next);
+  };
+
+  const points = values
+    .map(
+      (value, i) => `${(i / (SKETCH_POINTS - 1)) * SKETCH_WIDTH},${toY(value)}`
+    )
+    .join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${SKETCH_WIDTH} ${SKETCH_HEIGHT}`}
+      className="w-full h-32 border rounded bg-gray-50 cursor-crosshair touch-none"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastIndex.current = null;
+        draw(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.buttons & 1) draw(e);
+      }}
+      onPointerUp={() => {
+        lastIndex.current = null;
+      }}
+    >
+      <line
+        x1={0}
+        x2={SKETCH_WIDTH}
+        y1={toY(1)}
+        y2={toY(1)}
+        stroke="#999"
+        strokeDasharray="4 4"
+      />
+      <polyline points={points} fill="none" stroke="#1976d2" strokeWidth={2} />
+    </svg>
+  );
+};
+
+const HedgingPanel: React.FC<HedgingPanelProps> = ({
+  isOpen,
+  setIsOpen,
+  settings,
+  setSettings,
+  instrumentT,
+  proposal,
+  simulation,
+  onAddHedgeLeg,
+}) => {
+  const update = <K extends keyof HedgeSettings>(
+    key: K,
+    value: HedgeSettings[K]
+  ) => setSettings({ ...settings, [key]: value });
+  const usesOption = settings.target !== "delta";
+
+  return (
+    <div className="mt-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="font-medium mb-2 hover:underline"
+      >
+        Hedging {isOpen ? "▲" : "▼"}
+      </button>
+      {isOpen && (
+        <>
+          <div className="flex flex-wrap gap-4 mb-4">
+            <div>
+              <label className="mr-2 font-medium">Target:</label>
+              <select
+                value={settings.target}
+                onChange={(e) =>
+                  update("target", e.target.value as HedgeTarget)
+                }
+                className="border rounded p-1"
+              >
+                {Object.entries(TARGET_LABELS).map(([target, label]) => (
+                  <option key={target} value={target}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {usesOption && (
+              <>
+                <div>
+                  <label className="mr-2 font-medium">Hedge Option:</label>
+                  <select
+                    value={settings.instrumentType}
+                    onChange={(e) =>
+                      update("instrumentType", e.target.value as "call" | "put")
+                    }
+                    className="border rounded p-1"
+                  >
+                    <option value="call">Call</option>
+                    <option value="put">Put</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="mr-2 font-medium">Strike:</label>
+                  <input
+                    type="number"
+                    value={settings.instrumentStrike}
+                    onChange={(e) =>
+                      update(
+                        "instrumentStrike",
+                        Math.max(parseFloat(e.target.value) || 0, 0.01)
+                      )
+                    }
+                    className="border rounded p-1 w-20"
+                  />
+                </div>
+                <div>
+                  <label className="mr-2 font-medium">
+                    Expiry (T = {instrumentT.toFixed(3)}):
+                  </label>
+                  <input
+                    type="date"
+                    value={settings.instrumentExpiry}
+                    onChange={(e) =>
+                      e.target.value &&
+                      update("instrumentExpiry", e.target.value)
+                    }
+                    className="border rounded p-1"
+                  />
+                </div>
+                <div>
+                  <label className="mr-2 font-medium">IV:</label>
+                  <input
+                    type="number"
+                    value={settings.instrumentSigma}
+                    onChange={(e) =>
+                      update(
+                        "instrumentSigma",
+                        Math.max(parseFloat(e.target.value) || 0, 0.01)
+                      )
+                    }
+                    step="0.01"
+                    className="border rounded p-1 w-20"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          {proposal && (
+            <div className="mb-4 text-sm">
+              <div className="flex flex-wrap gap-4 mb-2 items-center">
+                <span>{tradeLabel(proposal.shares, "shares")}</span>
+                {usesOption && (
+                  <span>
+                    {tradeLabel(
+                      proposal.optionQuantity,
+                      `× ${settings.instrumentStrike} ${settings.instrumentType}`
+                    )}{" "}
+                    @ {proposal.instrument.price.toFixed(2)}
+                  </span>
+                )}
+                {usesOption &&
+                  Math.round(Math.abs(proposal.optionQuantity)) > 0 && (
+                    <button
+                      onClick={onAddHedgeLeg}
+                      className="px-2 py-1 border rounded"
+                    >
+                      Add Hedge Leg
+                    </button>
+                  )}
+              </div>
+              <table className="text-left">
+                <thead>
+                  <tr>
+                    <th className="pr-4 font-medium">Greek</th>
+                    <th className="pr-4 font-medium">Portfolio</th>
+                    <th className="pr-4 font-medium">Hedged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {GREEK_ROWS.map((key) => (
+                    <tr key={key}>
+                      <td className="pr-4 capitalize">{key}</td>
+                      <td className="pr-4">
+                        {proposal.portfolio[key].toFixed(4)}
+                      </td>
+                      <td className="pr-4">
+                        {proposal.hedged[key].toFixed(4)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <h4 className="font-medium mb-2">Rebalancing Simulation</h4>
+          <div className="flex flex-wrap gap-4 mb-4">
+            <div>
+              <label className="mr-2 font-medium">Path:</label>
+              <select
+                value={settings.source}
+                onChange={(e) =>
+                  update("source", e.target.value as HedgeSettings["source"])
+                }
+                className="border rounded p-1"
+              >
+                <option value="simulated">Simulated</option>
+                <option value="sketched">Drawn</option>
+              </select>
+            </div>
+            <div>
+              <label className="mr-2 font-medium">Horizon (Days):</label>
+              <input
+                type="number"
+                value={settings.horizonDays}
+                onChange={(e) =>
+                  update(
+                    "horizonDays",
+                    Math.min(
+                      Math.max(parseInt(e.target.value) || 0, 1),
+                      MAX_HEDGE_DAYS
+                    )
+                  )
+                }
+                min="1"
+                max={MAX_HEDGE_DAYS}
+                className="border rounded p-1 w-20"
+              />
+            </div>
+            <div>
+              <label className="mr-2 font-medium">
+                Rebalance Every (Days):
+              </label>
+              <input
+                type="number"
+                value={settings.rebalanceDays}
+                onChange={(e) =>
+                  update(
+                    "rebalanceDays",
+                    Math.max(parseInt(e.target.value) || 0, 1)
+                  )
+                }
+                min="1"
+                className="border rounded p-1 w-20"
+              />
+            </div>
+            {settings.source === "simulated" && (
+              <>
+                <div>
+                  <label className="mr-2 font-medium">Paths:</label>
+                  <input
+                    type="number"
+                    value={settings.paths}
+                    onChange={(e) =>
+                      update(
+                        "paths",
+                        Math.min(
+                          Math.max(parseInt(e.target.value) || 0, 1),
+                          MAX_HEDGE_PATHS
+                        )
+                      )
+                    }
+                    min="1"
+                    max={MAX_HEDGE_PATHS}
+                    className="border rounded p-1 w-24"
+                  />
+                </div>
+                <div>
+                  <label className="mr-2 font-medium">Seed:</label>
+                  <input
+                    type="number"
+                    value={settings.seed}
+                    onChange={(e) =>
+                      update("seed", parseInt(e.target.value) || 0)
+                    }
+                    className="border rounded p-1 w-24"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          {settings.source === "sketched" && (
+            <div className="mb-4">
+              <div className="flex justify-between text-sm mb-1">
+                <span>
+                  Draw the spot path ({SKETCH_MIN}× to {SKETCH_MAX}× spot)
+                </span>
+                <button
+                  onClick={() => update("sketch", Array(SKETCH_POINTS).fill(1))}
+                  className="px-2 py-0.5 border rounded"
+                >
+                  Reset
+                </button>
+              </div>
+              <PathSketch
+                values={settings.sketch}
+                onChange={(sketch) => update("sketch", sketch)}
+              />
+            </div>
+          )}
+          {simulation && (
+            <table className="mb-2 text-sm text-left">
+              <thead>
+                <tr>
+                  <th className="pr-4 font-medium">
+                    Final P&L ({simulation.paths} path
+                    {simulation.paths === 1 ? "" : "s"})
+                  </th>
+                  <th className="pr-4 font-medium">Mean</th>
+                  <th className="pr-4 font-medium">Std Dev</th>
+                  <th className="pr-4 font-medium">Min</th>
+                  <th className="pr-4 font-medium">Max</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(["hedged", "unhedged"] as const).map((key) => (
+                  <tr key={key}>
+                    <td className="pr-4 capitalize">{key}</td>
+                    <td className="pr-4">{simulation[key].mean.toFixed(2)}</td>
+                    <td className="pr-4">
+                      {simulation[key].stdDev.toFixed(2)}
+                    </td>
+                    <td className="pr-4">{simulation[key].min.toFixed(2)}</td>
+                    <td className="pr-4">{simulation[key].max.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={simulation?.path ?? []}
+                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="day"
+                  label={{ value: "Day", position: "insideBottom", offset: -5 }}
+                />
+                <YAxis
+                  yAxisId="pnl"
+                  tickFormatter={(value: number) => value.toFixed(2)}
+                />
+                <YAxis
+                  yAxisId="spot"
+                  orientation="right"
+                  tickFormatter={(value: number) => value.toFixed(0)}
+                />
+                <Tooltip
+                  formatter={(value: number) => value.toFixed(2)}
+                  labelFormatter={(value: number) => `Day ${value}`}
+                />
+                <Legend verticalAlign="top" />
+                <ReferenceLine yAxisId="pnl" y={0} stroke="#999" />
+                <Line
+                  yAxisId="pnl"
+                  type="monotone"
+                  dataKey="hedgedPnl"
+                  name="Hedged P&L"
+                  stroke="#2e7d32"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId="pnl"
+                  type="monotone"
+                  dataKey="unhedgedPnl"
+                  name="Unhedged P&L"
+                  stroke="#d32f2f"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId="spot"
+                  type="monotone"
+                  dataKey="spot"
+                  name="Spot"
+                  stroke="#999"
+                  strokeDasharray="4 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HedgingPanel;
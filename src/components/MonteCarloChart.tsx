@@ -0,0 +1,151 @@
+// MonteCarloChart.tsx
+import React from "react";
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { MAX_MONTE_CARLO_PATHS } from "../utils/monteCarlo";
+import { MonteCarloResult } from "../utils/types";
+
+interface MonteCarloChartProps {
+  result: MonteCarloResult | null;
+  horizonDays: number;
+  setHorizonDays: (days: number) => void;
+  paths: number;
+  setPaths: (paths: number) => void;
+  seed: number;
+  setSeed: (seed: number) => void;
+  confidence: number;
+  setConfidence: (confidence: number) => void;
+}
+
+const MonteCarloChart: React.FC<MonteCarloChartProps> = ({
+  result,
+  horizonDays,
+  setHorizonDays,
+  paths,
+  setPaths,
+  seed,
+  setSeed,
+  confidence,
+  setConfidence,
+}) => {
+  const confidenceLabel = `${(confidence * 100).toFixed(0)}%`;
+
+  return (
+    <div className="mt-6">
+      <h3 className="font-medium mb-2">Monte Carlo P&L at Horizon</h3>
+      <div className="flex flex-wrap gap-4 mb-4">
+        <div>
+          <label className="mr-2 font-medium">Horizon (Days):</label>
+          <input
+            type="number"
+            value={horizonDays}
+            onChange={(e) =>
+              setHorizonDays(Math.max(parseInt(e.target.value) || 0, 1))
+            }
+            min="1"
+            className="border rounded p-1 w-20"
+          />
+        </div>
+        <div>
+          <label className="mr-2 font-medium">Paths:</label>
+          <input
+            type="number"
+            value={paths}
+            onChange={(e) =>
+              setPaths(
+                Math.min(
+                  Math.max(parseInt(e.target.value) || 0, 1000),
+                  MAX_MONTE_CARLO_PATHS
+                )
+              )
+            }
+            min="1000"
+            max={MAX_MONTE_CARLO_PATHS}
+            step="1000"
+            className="border rounded p-1 w-24"
+          />
+        </div>
+        <div>
+          <label className="mr-2 font-medium">Seed:</label>
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+            className="border rounded p-1 w-24"
+          />
+        </div>
+        <div>
+          <label className="mr-2 font-medium">Confidence:</label>
+          <select
+            value={confidence}
+            onChange={(e) => setConfidence(parseFloat(e.target.value))}
+            className="border rounded p-1"
+          >
+            <option value={0.9}>90%</option>
+            <option value={0.95}>95%</option>
+            <option value={0.99}>99%</option>
+          </select>
+        </div>
+      </div>
+      {result && (
+        <div className="mb-2 flex flex-wrap gap-4 text-sm">
+          <span>
+            Probability of Profit:{" "}
+            {(result.probabilityOfProfit * 100).toFixed(1)}%
+          </span>
+          <span>Expected P&L: {result.expectedValue.toFixed(2)}</span>
+          <span>
+            VaR ({confidenceLabel}): {result.valueAtRisk.toFixed(2)}
+          </span>
+          <span>
+            CVaR ({confidenceLabel}): {result.conditionalValueAtRisk.toFixed(2)}
+          </span>
+        </div>
+      )}
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={result?.histogram ?? []}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="pnl"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => value.toFixed(2)}
+              label={{ value: "P&L", position: "insideBottom", offset: -5 }}
+            />
+            <YAxis
+              tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`}
+            />
+            <Tooltip
+              formatter={(value: number) => [
+                `${(value * 100).toFixed(2)}%`,
+                "Probability",
+              ]}
+              labelFormatter={(value: number) => `P&L: ${value.toFixed(2)}`}
+            />
+            <ReferenceLine x={0} stroke="#999" />
+            <Bar dataKey="probability" isAnimationActive={false}>
+              {(result?.histogram ?? []).map((bin, index) => (
+                <Cell key={index} fill={bin.pnl >= 0 ? "#2e7d32" : "#d32f2f"} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default MonteCarloChart;
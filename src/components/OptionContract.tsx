@@ -1,13 +1,39 @@
 // OptionContract.tsx
 import React from "react";
-import { OptionContractProps } from "../utils/types";
+import { OptionContractProps, PricingModel } from "../utils/types";
+import { parseIsoDate } from "../utils/dayCount";
+import { DEFAULT_EXOTIC_TERMS, hasExoticPayoff } from "../utils/exotics";
+import { MODEL_LABELS, MODEL_LIMITS } from "../utils/pricingModels";
+import ExoticTermsFields from "./ExoticTermsFields";
 
 const OptionContract: React.FC<OptionContractProps> = ({
   option,
   index,
   updateOption,
   removeOption,
+  warning,
 }) => {
+  // Early exercise and exotic payoffs are priced under Black-Scholes only
+  const model = option.model ?? "blackScholes";
+  const isExotic = hasExoticPayoff(option);
+  const europeanOnly = isExotic || model !== "blackScholes";
+  const isAmerican = !europeanOnly && option.exercise === "american";
+  const limits = MODEL_LIMITS[model];
+
+  // Ignores cleared or out-of-range entries, as the top-level inputs do, so
+  // a leg never holds a value that could not be saved
+  const updateNumber = (
+    field: "K" | "sigma",
+    value: string,
+    min: number,
+    max: number
+  ) => {
+    const numValue = parseFloat(value);
+    if (!isNaN(numValue) && numValue >= min && numValue <= max) {
+      updateOption(index, field, numValue);
+    }
+  };
+
   return (
     <div className="border p-3 rounded-lg mb-2 bg-gray-50">
       <div className="flex justify-between mb-2">
@@ -33,6 +59,41 @@ const OptionContract: React.FC<OptionContractProps> = ({
             <option value="put">Put</option>
           </select>
         </div>
+        <div>
+          <label className="block text-sm">Exercise</label>
+          <select
+            value={europeanOnly ? "european" : (option.exercise ?? "european")}
+            disabled={europeanOnly}
+            onChange={(e) =>
+              updateOption(
+                index,
+                "exercise",
+                e.target.value as "european" | "american"
+              )
+            }
+            className="border rounded p-1 w-full"
+          >
+            <option value="european">European</option>
+            <option value="american">American</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm">Model</label>
+          <select
+            value={model}
+            disabled={isExotic || isAmerican}
+            onChange={(e) =>
+              updateOption(index, "model", e.target.value as PricingModel)
+            }
+            className="border rounded p-1 w-full"
+          >
+            {Object.entries(MODEL_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
         <div>
           <label className="block text-sm">Position</label>
           <select
@@ -68,13 +129,97 @@ const OptionContract: React.FC<OptionContractProps> = ({
             type="number"
             value={option.K}
             onChange={(e) =>
-              updateOption(index, "K", parseFloat(e.target.value))
+              updateNumber(
+                "K",
+                e.target.value,
+                limits.minPrice,
+                limits.maxPrice
+              )
             }
+            min={limits.minPrice}
+            max={limits.maxPrice}
             className="border rounded p-1 w-full"
             step="1"
           />
         </div>
+        <div>
+          <label className="block text-sm">
+            Expiry (T = {option.T.toFixed(3)})
+          </label>
+          <input
+            type="date"
+            value={option.expiry ?? ""}
+            onChange={(e) => {
+              if (parseIsoDate(e.target.value)) {
+                updateOption(index, "expiry", e.target.value);
+              }
+            }}
+            className="border rounded p-1 w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm">IV</label>
+          <input
+            type="number"
+            value={option.sigma}
+            onChange={(e) =>
+              updateNumber(
+                "sigma",
+                e.target.value,
+                limits.minVol,
+                limits.maxVol
+              )
+            }
+            min={limits.minVol}
+            max={limits.maxVol}
+            className="border rounded p-1 w-full"
+            step="0.01"
+          />
+        </div>
+        <div>
+          <label className="block text-sm">Entry Price</label>
+          <input
+            type="number"
+            value={option.entryPrice ?? 0}
+            onChange={(e) =>
+              updateOption(index, "entryPrice", parseFloat(e.target.value) || 0)
+            }
+            min="0"
+            className="border rounded p-1 w-full"
+            step="0.01"
+          />
+        </div>
+        <div>
+          <label className="block text-sm">Div. Yield</label>
+          <input
+            type="number"
+            value={option.q ?? 0}
+            onChange={(e) =>
+              updateOption(index, "q", parseFloat(e.target.value) || 0)
+            }
+            min="0"
+            className="border rounded p-1 w-full"
+            step="0.01"
+          />
+        </div>
+        <ExoticTermsFields
+          terms={option.exotic ?? DEFAULT_EXOTIC_TERMS}
+          onChange={(terms) =>
+            updateOption(
+              index,
+              "exotic",
+              terms.payoff === "vanilla" ? undefined : terms
+            )
+          }
+          disabled={model !== "blackScholes"}
+          stacked
+        />
       </div>
+      {warning && (
+        <div className="text-sm text-red-500 mt-2">
+          {warning}; this leg is left out of pricing
+        </div>
+      )}
     </div>
   );
 };
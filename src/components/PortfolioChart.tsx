@@ -8,12 +8,52 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceLine,
 } from "recharts";
 import OptionContract from "./OptionContract";
 import { PortfolioDataPoint, PortfolioOption } from "../utils/types";
+import { jsAnalyzeExpiryPayoff } from "../utils/calculations";
+
+type PortfolioLine = Exclude<keyof PortfolioDataPoint, "parameter">;
+
+const PORTFOLIO_LINES: Array<{
+  key: PortfolioLine;
+  name: string;
+  stroke: string;
+  defaultVisible: boolean;
+}> = [
+  { key: "delta", name: "Delta", stroke: "#8884d8", defaultVisible: true },
+  { key: "gamma", name: "Gamma", stroke: "#82ca9d", defaultVisible: true },
+  { key: "theta", name: "Theta", stroke: "#ff7300", defaultVisible: true },
+  { key: "vega", name: "Vega", stroke: "#0088FE", defaultVisible: true },
+  { key: "vanna", name: "Vanna", stroke: "#d0021b", defaultVisible: false },
+  { key: "volga", name: "Volga", stroke: "#9013fe", defaultVisible: false },
+  { key: "charm", name: "Charm", stroke: "#f5a623", defaultVisible: false },
+  { key: "speed", name: "Speed", stroke: "#417505", defaultVisible: false },
+  { key: "color", name: "Color", stroke: "#bd10e0", defaultVisible: false },
+  { key: "zomma", name: "Zomma", stroke: "#4a90e2", defaultVisible: false },
+  {
+    key: "value",
+    name: "Portfolio Value",
+    stroke: "#000",
+    defaultVisible: false,
+  },
+  { key: "pnl", name: "P&L Today", stroke: "#2e7d32", defaultVisible: true },
+  {
+    key: "expiryPnl",
+    name: "P&L at Expiry",
+    stroke: "#555",
+    defaultVisible: true,
+  },
+];
+
+const formatBound = (value: number | null) =>
+  value === null ? "Unlimited" : value.toFixed(2);
 
 interface PortfolioChartProps {
   options: PortfolioOption[];
+  // One entry per leg; legs with a warning are left out of pricing
+  legWarnings: Array<string | null>;
   portfolioData: PortfolioDataPoint[];
   portfolioParam: string;
   isDropdownOpen: boolean;
@@ -30,6 +70,7 @@ interface PortfolioChartProps {
 
 const PortfolioChart: React.FC<PortfolioChartProps> = ({
   options,
+  legWarnings,
   portfolioData,
   portfolioParam,
   isDropdownOpen,
@@ -39,15 +80,25 @@ const PortfolioChart: React.FC<PortfolioChartProps> = ({
   addOption,
   getAxisLabel,
 }) => {
-  const [visibleLines, setVisibleLines] = React.useState({
-    delta: true,
-    gamma: true,
-    theta: true,
-    vega: true,
-    value: true,
-  });
+  const [visibleLines, setVisibleLines] = React.useState<
+    Record<PortfolioLine, boolean>
+  >(
+    () =>
+      Object.fromEntries(
+        PORTFOLIO_LINES.map(({ key, defaultVisible }) => [key, defaultVisible])
+      ) as Record<PortfolioLine, boolean>
+  );
 
-  const toggleLine = (line: keyof typeof visibleLines) => {
+  // Break-evens and bounds assume every leg settles at one expiry, so they
+  // are left out when the legs expire on different dates
+  const payoff = React.useMemo(() => {
+    const legs = options.filter((_, i) => !legWarnings[i]);
+    return new Set(legs.map(({ T }) => T)).size > 1
+      ? null
+      : jsAnalyzeExpiryPayoff(legs);
+  }, [options, legWarnings]);
+
+  const toggleLine = (line: PortfolioLine) => {
     setVisibleLines((prev) => ({
       ...prev,
       [line]: !prev[line],
@@ -72,6 +123,7 @@ const PortfolioChart: React.FC<PortfolioChartProps> = ({
                 index={index}
                 updateOption={updateOption}
                 removeOption={removeOption}
+                warning={legWarnings[index]}
               />
             ))}
             <button
@@ -83,53 +135,36 @@ const PortfolioChart: React.FC<PortfolioChartProps> = ({
           </>
         )}
       </div>
-      <div className="mb-4 flex gap-4">
-        <label className="flex items-center">
-          <input
-            type="checkbox"
-            checked={visibleLines.delta}
-            onChange={() => toggleLine("delta")}
-            className="mr-2"
-          />
-          Delta
-        </label>
-        <label className="flex items-center">
-          <input
-            type="checkbox"
-            checked={visibleLines.gamma}
-            onChange={() => toggleLine("gamma")}
-            className="mr-2"
-          />
-          Gamma
-        </label>
-        <label className="flex items-center">
-          <input
-            type="checkbox"
-            checked={visibleLines.theta}
-            onChange={() => toggleLine("theta")}
-            className="mr-2"
-          />
-          Theta
-        </label>
-        <label className="flex items-center">
-          <input
-            type="checkbox"
-            checked={visibleLines.vega}
-            onChange={() => toggleLine("vega")}
-            className="mr-2"
-          />
-          Vega
-        </label>
-        <label className="flex items-center">
-          <input
-            type="checkbox"
-            checked={visibleLines.value}
-            onChange={() => toggleLine("value")}
-            className="mr-2"
-          />
-          Portfolio Value
-        </label>
+      <div className="mb-4 flex flex-wrap gap-4">
+        {PORTFOLIO_LINES.map(({ key, name }) => (
+          <label key={key} className="flex items-center">
+            <input
+              type="checkbox"
+              checked={visibleLines[key]}
+              onChange={() => toggleLine(key)}
+              className="mr-2"
+            />
+            {name}
+          </label>
+        ))}
       </div>
+      {payoff ? (
+        <div className="mb-2 flex flex-wrap gap-4 text-sm">
+          <span>
+            Break-even:{" "}
+            {payoff.breakEvens.length > 0
+              ? payoff.breakEvens.map((value) => value.toFixed(2)).join(", ")
+              : "None"}
+          </span>
+          <span>Max Gain: {formatBound(payoff.maxGain)}</span>
+          <span>Max Loss: {formatBound(payoff.maxLoss)}</span>
+        </div>
+      ) : (
+        <div className="mb-2 text-sm text-gray-600">
+          Legs expire on different dates: the expiry line is the P&L at the
+          first expiry, with later legs at model value.
+        </div>
+      )}
       <div className="h-64 w-full">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart
@@ -139,6 +174,9 @@ const PortfolioChart: React.FC<PortfolioChartProps> = ({
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis
               dataKey="parameter"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => value.toFixed(2)}
               label={{
                 value: getAxisLabel(portfolioParam),
                 position: "insideBottom",
@@ -148,46 +186,34 @@ const PortfolioChart: React.FC<PortfolioChartProps> = ({
             <YAxis />
             <Tooltip />
             <Legend />
-            {visibleLines.delta && (
-              <Line
-                type="monotone"
-                dataKey="delta"
-                name="Delta"
-                stroke="#8884d8"
-              />
-            )}
-            {visibleLines.gamma && (
-              <Line
-                type="monotone"
-                dataKey="gamma"
-                name="Gamma"
-                stroke="#82ca9d"
-              />
-            )}
-            {visibleLines.theta && (
-              <Line
-                type="monotone"
-                dataKey="theta"
-                name="Theta"
-                stroke="#ff7300"
-              />
-            )}
-            {visibleLines.vega && (
-              <Line
-                type="monotone"
-                dataKey="vega"
-                name="Vega"
-                stroke="#0088FE"
-              />
-            )}
-            {visibleLines.value && (
-              <Line
-                type="monotone"
-                dataKey="value"
-                name="Portfolio Value"
-                stroke="#000"
-                strokeWidth={2}
-              />
+            <ReferenceLine y={0} stroke="#999" />
+            {portfolioParam === "price" &&
+              payoff?.breakEvens.map((value) => (
+                <ReferenceLine
+                  key={value}
+                  x={value}
+                  stroke="#999"
+                  strokeDasharray="4 4"
+                  label={{ value: value.toFixed(2), position: "top" }}
+                />
+              ))}
+            {PORTFOLIO_LINES.filter(({ key }) => visibleLines[key]).map(
+              ({ key, name, stroke }) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={
+                    key === "expiryPnl" && !payoff
+                      ? "P&L at First Expiry"
+                      : name
+                  }
+                  stroke={stroke}
+                  strokeWidth={key === "pnl" || key === "expiryPnl" ? 2 : 1}
+                  strokeDasharray={key === "expiryPnl" ? "5 3" : undefined}
+                  dot={false}
+                />
+              )
             )}
           </LineChart>
         </ResponsiveContainer>
@@ -0,0 +1,240 @@
+// ScenarioGrid.tsx
+import React from "react";
+import { SCENARIO_SPOT_SHOCKS, SCENARIO_VOL_SHOCKS } from "../utils/scenarios";
+import { SavedScenario, ScenarioMetric, ScenarioResult } from "../utils/types";
+
+const METRICS: Array<{ key: ScenarioMetric; name: string }> = [
+  { key: "pnl", name: "P&L" },
+  { key: "value", name: "Value" },
+  { key: "delta", name: "Delta" },
+  { key: "gamma", name: "Gamma" },
+  { key: "theta", name: "Theta" },
+  { key: "vega", name: "Vega" },
+];
+
+interface ScenarioGridProps {
+  gridResults: ScenarioResult[];
+  savedScenarios: SavedScenario[];
+  savedResults: ScenarioResult[];
+  daysForward: number;
+  setDaysForward: (days: number) => void;
+  onSaveScenario: (scenario: SavedScenario) => void;
+  onDeleteScenario: (index: number) => void;
+}
+
+const formatPercent = (value: number) =>
+  `${value > 0 ? "+" : ""}${(value * 100).toFixed(0)}%`;
+
+const formatVolPoints = (value: number) =>
+  `${value > 0 ? "+" : ""}${(value * 100).toFixed(0)} vol`;
+
+// Green for gains, red for losses, shaded by size relative to the largest cell
+const cellColor = (value: number, scale: number) => {
+  if (scale === 0 || value === 0) return undefined;
+  const alpha = Math.min(Math.abs(value) / scale, 1) * 0.6;
+  return value > 0
+    ? `rgba(46, 125, 50, ${alpha})`
+    : `rgba(211, 47, 47, ${alpha})`;
+};
+
+const ScenarioGrid: React.FC<ScenarioGridProps> = ({
+  gridResults,
+  savedScenarios,
+  savedResults,
+  daysForward,
+  setDaysForward,
+  onSaveScenario,
+  onDeleteScenario,
+}) => {
+  const [metric, setMetric] = React.useState<ScenarioMetric>("pnl");
+  const [draft, setDraft] = React.useState<SavedScenario>({
+    name: "",
+    spotShock: -0.1,
+    volShock: 0.05,
+    daysForward: 0,
+  });
+
+  const scale = Math.max(
+    0,
+    ...gridResults.map((result) => Math.abs(result[metric]))
+  );
+  const format = (value: number) =>
+    metric === "pnl" || metric === "value"
+      ? value.toFixed(2)
+      : value.toFixed(4);
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-4 mb-4">
+        <div>
+          <label className="mr-2 font-medium">Show:</label>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as ScenarioMetric)}
+            className="border rounded p-1"
+          >
+            {METRICS.map(({ key, name }) => (
+              <option key={key} value={key}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mr-2 font-medium">Days Forward:</label>
+          <input
+            type="number"
+            value={daysForward}
+            onChange={(e) =>
+              setDaysForward(Math.max(parseInt(e.target.value) || 0, 0))
+            }
+            min="0"
+            className="border rounded p-1 w-20"
+          />
+        </div>
+      </div>
+      <div className="overflow-auto mb-6">
+        <table className="text-sm w-full text-right">
+          <thead>
+            <tr>
+              <th className="px-2 text-left">Spot \ Vol</th>
+              {SCENARIO_VOL_SHOCKS.map((volShock) => (
+                <th key={volShock} className="px-2">
+                  {formatVolPoints(volShock)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SCENARIO_SPOT_SHOCKS.map((spotShock, row) => (
+              <tr key={spotShock}>
+                <th className="px-2 text-left">{formatPercent(spotShock)}</th>
+                {SCENARIO_VOL_SHOCKS.map((volShock, column) => {
+                  const result =
+                    gridResults[row * SCENARIO_VOL_SHOCKS.length + column];
+                  return (
+                    <td
+                      key={volShock}
+                      className="px-2 py-1 border"
+                      style={{
+                        backgroundColor: result
+                          ? cellColor(result[metric], scale)
+                          : undefined,
+                      }}
+                    >
+                      {result ? format(result[metric]) : "-"}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <h3 className="font-medium mb-2">Saved Scenarios</h3>
+      <table className="text-sm w-full mb-2">
+        <thead>
+          <tr className="text-left">
+            <th className="px-2">Name</th>
+            <th className="px-2">Spot</th>
+            <th className="px-2">Vol</th>
+            <th className="px-2">Days</th>
+            <th className="px-2">
+              {METRICS.find(({ key }) => key === metric)?.name}
+            </th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {savedScenarios.map((scenario, index) => (
+            <tr key={index}>
+              <td className="px-2">{scenario.name}</td>
+              <td className="px-2">{formatPercent(scenario.spotShock)}</td>
+              <td className="px-2">{formatVolPoints(scenario.volShock)}</td>
+              <td className="px-2">{scenario.daysForward}</td>
+              <td className="px-2">
+                {savedResults[index]
+                  ? format(savedResults[index][metric])
+                  : "-"}
+              </td>
+              <td className="px-2">
+                <button
+                  onClick={() => onDeleteScenario(index)}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label className="block text-sm">Name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="border rounded p-1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm">Spot Shock (%)</label>
+          <input
+            type="number"
+            value={draft.spotShock * 100}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                spotShock: (parseFloat(e.target.value) || 0) / 100,
+              })
+            }
+            className="border rounded p-1 w-20"
+          />
+        </div>
+        <div>
+          <label className="block text-sm">Vol Shock (pts)</label>
+          <input
+            type="number"
+            value={draft.volShock * 100}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                volShock: (parseFloat(e.target.value) || 0) / 100,
+              })
+            }
+            className="border rounded p-1 w-20"
+          />
+        </div>
+        <div>
+          <label className="block text-sm">Days Forward</label>
+          <input
+            type="number"
+            value={draft.daysForward}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                daysForward: Math.max(parseInt(e.target.value) || 0, 0),
+              })
+            }
+            min="0"
+            className="border rounded p-1 w-20"
+          />
+        </div>
+        <button
+          onClick={() => {
+            onSaveScenario({ ...draft, name: draft.name.trim() });
+            setDraft({ ...draft, name: "" });
+          }}
+          disabled={draft.name.trim() === ""}
+          className="px-4 py-2 bg-blue-600 text-black rounded hover:bg-blue-700"
+        >
+          Save Scenario
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioGrid;
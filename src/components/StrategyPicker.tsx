@@ -0,0 +1,87 @@
+// StrategyPicker.tsx
+import React from "react";
+import { STRATEGY_TEMPLATES } from "../utils/strategies";
+import { StrategyTemplate } from "../utils/types";
+
+interface StrategyPickerProps {
+  defaultCenter: number;
+  onApply: (
+    template: StrategyTemplate,
+    center: number,
+    width: number,
+    quantity: number
+  ) => void;
+}
+
+const StrategyPicker: React.FC<StrategyPickerProps> = ({
+  defaultCenter,
+  onApply,
+}) => {
+  const [templateId, setTemplateId] = React.useState<string>(
+    STRATEGY_TEMPLATES[0].id
+  );
+  const [center, setCenter] = React.useState<number>(defaultCenter);
+  const [width, setWidth] = React.useState<number>(5);
+  const [quantity, setQuantity] = React.useState<number>(1);
+
+  const template =
+    STRATEGY_TEMPLATES.find(({ id }) => id === templateId) ??
+    STRATEGY_TEMPLATES[0];
+
+  return (
+    <div className="mb-4 flex flex-wrap items-end gap-2">
+      <div>
+        <label className="block text-sm">Strategy</label>
+        <select
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+          className="border rounded p-1"
+        >
+          {STRATEGY_TEMPLATES.map(({ id, name }) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm">Centre Strike</label>
+        <input
+          type="number"
+          value={center}
+          onChange={(e) => setCenter(parseFloat(e.target.value) || 0)}
+          min="0"
+          className="border rounded p-1 w-24"
+        />
+      </div>
+      <div>
+        <label className="block text-sm">Width</label>
+        <input
+          type="number"
+          value={width}
+          onChange={(e) => setWidth(parseFloat(e.target.value) || 0)}
+          min="0"
+          className="border rounded p-1 w-20"
+        />
+      </div>
+      <div>
+        <label className="block text-sm">Quantity</label>
+        <input
+          type="number"
+          value={quantity}
+          onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+          min="1"
+          className="border rounded p-1 w-20"
+        />
+      </div>
+      <button
+        onClick={() => onApply(template, center, width, quantity)}
+        className="px-4 py-2 bg-blue-600 text-black rounded hover:bg-blue-700"
+      >
+        Load Strategy
+      </button>
+    </div>
+  );
+};
+
+export default StrategyPicker;
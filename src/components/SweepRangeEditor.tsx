@@ -0,0 +1,100 @@
+// SweepRangeEditor.tsx
+import React from "react";
+import { SweepMode, SweepRange } from "../utils/types";
+import {
+  DEFAULT_SWEEP_SETTINGS,
+  SWEEP_UNITS,
+  validateSweepRange,
+} from "../utils/sweepRanges";
+
+type RangeDraft = Record<keyof SweepRange, string>;
+
+const toDraft = ({ min, max, steps }: SweepRange): RangeDraft => ({
+  min: String(min),
+  max: String(max),
+  steps: String(steps),
+});
+
+const toRange = ({ min, max, steps }: RangeDraft): SweepRange => ({
+  min: parseFloat(min),
+  max: parseFloat(max),
+  steps: Number(steps),
+});
+
+interface SweepRangeEditorProps {
+  label: string;
+  mode: SweepMode;
+  axis: string;
+  range: SweepRange;
+  onChange: (range: SweepRange) => void;
+}
+
+// Edits are kept as text until they form a valid range, so half-typed
+// values never reach the chart or storage
+const SweepRangeEditor: React.FC<SweepRangeEditorProps> = ({
+  label,
+  mode,
+  axis,
+  range,
+  onChange,
+}) => {
+  const [draft, setDraft] = React.useState<RangeDraft>(() => toDraft(range));
+  const defaults: Record<string, SweepRange> = DEFAULT_SWEEP_SETTINGS[mode];
+
+  const error = validateSweepRange(mode, axis, toRange(draft));
+
+  const update = (field: keyof SweepRange, value: string) => {
+    const next = { ...draft, [field]: value };
+    setDraft(next);
+    const candidate = toRange(next);
+    if (validateSweepRange(mode, axis, candidate) === null) {
+      onChange(candidate);
+    }
+  };
+
+  const reset = () => {
+    setDraft(toDraft(defaults[axis]));
+    onChange(defaults[axis]);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        <label className="mr-1 font-medium">{label}:</label>
+        <input
+          type="number"
+          value={draft.min}
+          onChange={(e) => update("min", e.target.value)}
+          className="border rounded p-1 w-20"
+          step="any"
+        />
+        <span>to</span>
+        <input
+          type="number"
+          value={draft.max}
+          onChange={(e) => update("max", e.target.value)}
+          className="border rounded p-1 w-20"
+          step="any"
+        />
+        <span className="text-sm text-gray-500">{SWEEP_UNITS[mode][axis]}</span>
+        <input
+          type="number"
+          value={draft.steps}
+          onChange={(e) => update("steps", e.target.value)}
+          className="border rounded p-1 w-16 ml-2"
+          step="1"
+        />
+        <span className="text-sm text-gray-500">steps</span>
+        <button
+          onClick={reset}
+          className="ml-1 px-2 py-1 rounded border hover:border-black text-sm"
+        >
+          Reset
+        </button>
+      </div>
+      {error && <div className="text-sm text-red-500">{error}</div>}
+    </div>
+  );
+};
+
+export default SweepRangeEditor;
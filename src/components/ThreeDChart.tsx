@@ -3,14 +3,36 @@ import React, { useEffect, useRef } from "react";
 import Plotly from "plotly.js-dist-min";
 import { Surface3DProps } from "../utils/types";
 
+// Greeks that change sign get a diverging scale centred on zero
+const SIGNED_GREEKS: Array<Surface3DProps["greek"]> = [
+  "delta",
+  "theta",
+  "rho",
+  "vanna",
+  "volga",
+  "charm",
+  "speed",
+  "color",
+  "zomma",
+];
+
 const ThreeDChart: React.FC<Surface3DProps> = ({
   data,
   xLabel,
   yLabel,
   zLabel,
+  greek,
+  zRange,
 }) => {
   const plotRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    const plot = plotRef.current;
+    return () => {
+      if (plot) Plotly.purge(plot);
+    };
+  }, []);
+
   useEffect(() => {
     if (!plotRef.current || data.length === 0) return;
 
@@ -20,24 +42,23 @@ const ThreeDChart: React.FC<Surface3DProps> = ({
     const yValues = Array.from(new Set(data.map((point) => point.y))).sort(
       (a, b) => a - b
     );
-    const zValues: number[][] = [];
-
-    yValues.forEach((y) => {
-      const row: number[] = [];
-      xValues.forEach((x) => {
-        const point = data.find((p) => p.x === x && p.y === y);
-        row.push(point ? point.z : 0);
-      });
-      zValues.push(row);
-    });
+    const zByPoint = new Map(data.map((p) => [`${p.x},${p.y}`, p.z]));
+    const zValues = yValues.map((y) =>
+      xValues.map((x) => zByPoint.get(`${x},${y}`) ?? 0)
+    );
 
+    const isSigned = SIGNED_GREEKS.includes(greek);
     const plotData: Partial<Plotly.Data>[] = [
       {
         type: "surface",
         x: xValues,
         y: yValues,
         z: zValues,
-        colorscale: "Viridis",
+        colorscale: isSigned ? "RdBu" : "Viridis",
+        ...(zRange
+          ? { cmin: zRange[0], cmax: zRange[1] }
+          : isSigned && { cmid: 0 }),
+        colorbar: { title: { text: zLabel } },
       },
     ];
 
@@ -45,18 +66,19 @@ const ThreeDChart: React.FC<Surface3DProps> = ({
       scene: {
         xaxis: { title: { text: xLabel } },
         yaxis: { title: { text: yLabel } },
-        zaxis: { title: { text: zLabel } },
+        zaxis: {
+          title: { text: zLabel },
+          ...(zRange && { range: zRange, autorange: false }),
+        },
       },
+      // Keeps the camera where the user left it when the data changes
+      uirevision: `${xLabel}|${yLabel}`,
       margin: { l: 0, r: 0, t: 40, b: 0 },
       height: 400,
     };
 
-    Plotly.newPlot(plotRef.current, plotData, layout, { responsive: true });
-
-    return () => {
-      if (plotRef.current) Plotly.purge(plotRef.current);
-    };
-  }, [data, xLabel, yLabel, zLabel]);
+    Plotly.react(plotRef.current, plotData, layout, { responsive: true });
+  }, [data, xLabel, yLabel, zLabel, greek, zRange]);
 
   return (
     <div className="h-64 w-full">
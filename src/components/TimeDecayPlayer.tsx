@@ -0,0 +1,87 @@
+// TimeDecayPlayer.tsx
+import React from "react";
+import { FRAME_INTERVAL_MS } from "../utils/animation";
+
+interface TimeDecayPlayerProps {
+  frameDays: number[];
+  frameIndex: number;
+  setFrameIndex: (index: number) => void;
+  daysPerFrame: number;
+  setDaysPerFrame: (days: number) => void;
+  isReady: boolean;
+}
+
+const TimeDecayPlayer: React.FC<TimeDecayPlayerProps> = ({
+  frameDays,
+  frameIndex,
+  setFrameIndex,
+  daysPerFrame,
+  setDaysPerFrame,
+  isReady,
+}) => {
+  const [isPlaying, setIsPlaying] = React.useState<boolean>(false);
+  const lastFrame = frameDays.length - 1;
+
+  React.useEffect(() => {
+    if (!isPlaying) return;
+    if (frameIndex >= lastFrame) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(
+      () => setFrameIndex(frameIndex + 1),
+      FRAME_INTERVAL_MS
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, lastFrame, setFrameIndex]);
+
+  const togglePlay = () => {
+    // Playing from the last frame starts over
+    if (!isPlaying && frameIndex >= lastFrame) setFrameIndex(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const daysElapsed = frameDays[Math.min(frameIndex, lastFrame)] ?? 0;
+  const daysLeft = frameDays[lastFrame] - daysElapsed;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+      <button
+        onClick={togglePlay}
+        disabled={!isReady || lastFrame === 0}
+        className="px-3 py-1 rounded border hover:border-black w-16"
+      >
+        {isPlaying ? "Pause" : "Play"}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={lastFrame}
+        value={Math.min(frameIndex, lastFrame)}
+        onChange={(e) => {
+          setIsPlaying(false);
+          setFrameIndex(Number(e.target.value));
+        }}
+        disabled={!isReady}
+        className="flex-1 min-w-40"
+      />
+      <span className="w-44">
+        Day {daysElapsed.toFixed(0)} · {daysLeft.toFixed(0)} days to expiry
+      </span>
+      <label>Days/Frame:</label>
+      <input
+        type="number"
+        value={daysPerFrame}
+        onChange={(e) => {
+          const days = parseFloat(e.target.value);
+          if (days >= 0.1 && days <= 365) setDaysPerFrame(days);
+        }}
+        className="border rounded p-1 w-16"
+        step="1"
+      />
+      {!isReady && <span className="text-gray-500">Computing frames…</span>}
+    </div>
+  );
+};
+
+export default TimeDecayPlayer;
@@ -11,10 +11,28 @@ import {
 } from "recharts";
 import { ChartDataPoint, Greeks } from "../utils/types";
 
+const SERIES_COLORS = [
+  "#8884d8",
+  "#82ca9d",
+  "#ff7300",
+  "#e0245e",
+  "#17becf",
+  "#bcbd22",
+  "#9467bd",
+  "#8c564b",
+  "#7f7f7f",
+];
+
 interface TwoDChartProps {
   chartData: ChartDataPoint[];
   parameter: string;
   greek: keyof Greeks | "price";
+  valueLabel?: string;
+  // Names and axes for the live series followed by each pinned series
+  seriesLabels?: string[];
+  seriesAxes?: Array<"left" | "right">;
+  rightAxisLabel?: string;
+  yDomain?: [number, number];
   getAxisLabel: (param: string) => string;
   formatTooltip: (value: number) => string;
 }
@@ -23,9 +41,19 @@ const TwoDChart: React.FC<TwoDChartProps> = ({
   chartData,
   parameter,
   greek,
+  valueLabel,
+  seriesLabels,
+  seriesAxes,
+  rightAxisLabel,
+  yDomain,
   getAxisLabel,
   formatTooltip,
 }) => {
+  const label = valueLabel ?? greek.charAt(0).toUpperCase() + greek.slice(1);
+  const names = seriesLabels ?? [label];
+  const axes = seriesAxes ?? names.map(() => "left" as const);
+  const hasRightAxis = axes.includes("right");
+
   return (
     <div className="h-64 w-full">
       <ResponsiveContainer width="100%" height="100%">
@@ -43,29 +71,51 @@ const TwoDChart: React.FC<TwoDChartProps> = ({
             }}
           />
           <YAxis
+            yAxisId="left"
+            {...(yDomain && { domain: yDomain })}
             label={{
-              value: greek.charAt(0).toUpperCase() + greek.slice(1),
+              value: label,
               angle: -90,
               position: "insideLeft",
             }}
           />
+          {hasRightAxis && (
+            <YAxis
+              yAxisId="right"
+              orientation="right"
+              label={{
+                value: rightAxisLabel,
+                angle: 90,
+                position: "insideRight",
+              }}
+            />
+          )}
           <Tooltip
-            formatter={(value: number) => [
+            formatter={(value: number, name: string) => [
               formatTooltip(value),
-              greek.charAt(0).toUpperCase() + greek.slice(1),
+              name,
             ]}
             labelFormatter={(value: number) =>
               `${getAxisLabel(parameter)}: ${value.toFixed(2)}`
             }
           />
           <Legend />
-          <Line
-            type="monotone"
-            dataKey="value"
-            name={greek.charAt(0).toUpperCase() + greek.slice(1)}
-            stroke="#8884d8"
-            activeDot={{ r: 8 }}
-          />
+          {names.map((name, i) => (
+            <Line
+              key={i}
+              type="monotone"
+              dataKey={
+                i === 0
+                  ? "value"
+                  : (point: ChartDataPoint) => point.series?.[i - 1]
+              }
+              name={name}
+              yAxisId={axes[i]}
+              stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+              dot={names.length > 1 ? false : undefined}
+              activeDot={{ r: names.length > 1 ? 5 : 8 }}
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
     </div>
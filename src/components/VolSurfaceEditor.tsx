@@ -0,0 +1,159 @@
+// VolSurfaceEditor.tsx
+import React from "react";
+import { SviSlice, VolSurface } from "../utils/types";
+import {
+  DEFAULT_VOL_SURFACE,
+  sviTotalVariance,
+  validateSviSlice,
+} from "../utils/volSurface";
+
+const SLICE_FIELDS: Array<{
+  key: keyof SviSlice;
+  label: string;
+  step: string;
+}> = [
+  { key: "T", label: "Expiry", step: "0.25" },
+  { key: "a", label: "a", step: "0.001" },
+  { key: "b", label: "b", step: "0.01" },
+  { key: "rho", label: "rho", step: "0.05" },
+  { key: "m", label: "m", step: "0.01" },
+  { key: "sigma", label: "sigma", step: "0.01" },
+];
+
+interface VolSurfaceEditorProps {
+  volSurface: VolSurface;
+  setVolSurface: (surface: VolSurface) => void;
+}
+
+const VolSurfaceEditor: React.FC<VolSurfaceEditorProps> = ({
+  volSurface,
+  setVolSurface,
+}) => {
+  const [isOpen, setIsOpen] = React.useState<boolean>(false);
+
+  const updateSlice = (index: number, field: keyof SviSlice, value: number) => {
+    const slices = [...volSurface.slices];
+    slices[index] = { ...slices[index], [field]: value };
+    setVolSurface({ ...volSurface, slices });
+  };
+
+  const addSlice = () => {
+    const last = volSurface.slices[volSurface.slices.length - 1];
+    const slice = last
+      ? { ...last, T: last.T + 0.5 }
+      : DEFAULT_VOL_SURFACE.slices[0];
+    setVolSurface({ ...volSurface, slices: [...volSurface.slices, slice] });
+  };
+
+  const removeSlice = (index: number) => {
+    setVolSurface({
+      ...volSurface,
+      slices: volSurface.slices.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-4">
+        <h3
+          className="font-medium cursor-pointer"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          Volatility Surface (SVI) {isOpen ? "↑" : "↓"}
+        </h3>
+        <label className="flex items-center text-sm">
+          <input
+            type="checkbox"
+            checked={volSurface.enabled}
+            onChange={() =>
+              setVolSurface({ ...volSurface, enabled: !volSurface.enabled })
+            }
+            className="mr-2"
+          />
+          Use surface instead of flat volatility
+        </label>
+      </div>
+      {isOpen && (
+        <div className="mt-2">
+          <table className="text-sm">
+            <thead>
+              <tr>
+                {SLICE_FIELDS.map(({ key, label }) => (
+                  <th key={key} className="px-1 text-left">
+                    {label}
+                  </th>
+                ))}
+                <th className="px-1 text-left">ATM Vol</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {volSurface.slices.map((slice, index) => {
+                const error = validateSviSlice(slice);
+                return (
+                  <tr key={index}>
+                    {SLICE_FIELDS.map(({ key, step }) => (
+                      <td key={key} className="px-1">
+                        <input
+                          type="number"
+                          value={slice[key]}
+                          onChange={(e) =>
+                            updateSlice(
+                              index,
+                              key,
+                              parseFloat(e.target.value) || 0
+                            )
+                          }
+                          className="border rounded p-1 w-20"
+                          step={step}
+                        />
+                      </td>
+                    ))}
+                    <td className="px-1">
+                      {error ? (
+                        <span className="text-red-500">{error}</span>
+                      ) : (
+                        Math.sqrt(sviTotalVariance(slice, 0) / slice.T).toFixed(
+                          4
+                        )
+                      )}
+                    </td>
+                    <td className="px-1">
+                      <button
+                        onClick={() => removeSlice(index)}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="mt-2 flex gap-2">
+            <button
+              onClick={addSlice}
+              className="px-4 py-2 bg-blue-600 text-black rounded hover:bg-blue-700"
+            >
+              Add Expiry
+            </button>
+            <button
+              onClick={() =>
+                setVolSurface({
+                  ...DEFAULT_VOL_SURFACE,
+                  enabled: volSurface.enabled,
+                })
+              }
+              className="px-4 py-2 rounded border hover:border-black"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VolSurfaceEditor;
@@ -0,0 +1,144 @@
+// WorkspaceBar.tsx
+import React from "react";
+import {
+  addPortfolio,
+  createPortfolio,
+  exportPortfolioFile,
+  getActivePortfolio,
+  importPortfolioFile,
+  removePortfolio,
+  updatePortfolio,
+} from "../utils/workspaces";
+import { WorkspaceStore } from "../utils/types";
+
+interface WorkspaceBarProps {
+  store: WorkspaceStore;
+  setStore: (store: WorkspaceStore) => void;
+}
+
+const WorkspaceBar: React.FC<WorkspaceBarProps> = ({ store, setStore }) => {
+  const [importError, setImportError] = React.useState<string | null>(null);
+  const active = getActivePortfolio(store);
+
+  const exportActive = () => {
+    const blob = new Blob([exportPortfolioFile(active)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${active.name.replace(/[^\w-]+/g, "_") || "portfolio"}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const portfolio = importPortfolioFile(
+        await file.text(),
+        file.name.replace(/\.json$/i, "")
+      );
+      setStore(addPortfolio(store, portfolio));
+      setImportError(null);
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label className="block text-sm">Portfolio</label>
+          <select
+            value={active.id}
+            onChange={(e) => setStore({ ...store, activeId: e.target.value })}
+            className="border rounded p-1"
+          >
+            {store.portfolios.map(({ id, name }) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm">Name</label>
+          <input
+            type="text"
+            value={active.name}
+            onChange={(e) =>
+              setStore(
+                updatePortfolio(store, active.id, { name: e.target.value })
+              )
+            }
+            className="border rounded p-1"
+          />
+        </div>
+        <button
+          onClick={() =>
+            setStore(
+              addPortfolio(
+                store,
+                createPortfolio(`Portfolio ${store.portfolios.length + 1}`)
+              )
+            )
+          }
+          className="px-3 py-1 rounded border hover:border-black"
+        >
+          New
+        </button>
+        <button
+          onClick={() =>
+            setStore(
+              addPortfolio(
+                store,
+                createPortfolio(`${active.name} (copy)`, active.options)
+              )
+            )
+          }
+          className="px-3 py-1 rounded border hover:border-black"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={() => {
+            if (window.confirm(`Delete portfolio "${active.name}"?`)) {
+              setStore(removePortfolio(store, active.id));
+            }
+          }}
+          disabled={store.portfolios.length <= 1}
+          className="px-3 py-1 rounded border hover:border-black text-red-500"
+        >
+          Delete
+        </button>
+        <button
+          onClick={exportActive}
+          className="px-3 py-1 rounded border hover:border-black"
+        >
+          Export
+        </button>
+        <label className="px-3 py-1 rounded border hover:border-black cursor-pointer">
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {importError && (
+        <div className="text-sm text-red-500 mt-1">{importError}</div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceBar;
@@ -0,0 +1,37 @@
+// animation.ts
+export const MAX_ANIMATION_FRAMES = 60;
+export const FRAME_INTERVAL_MS = 150;
+
+// Days elapsed at each frame, from today through expiry. The step widens when
+// the requested one would need more than MAX_ANIMATION_FRAMES frames.
+export const buildFrameDays = (
+  daysToExpiry: number,
+  daysPerFrame: number
+): number[] => {
+  if (daysToExpiry <= 0 || daysPerFrame <= 0) return [0];
+  const step = Math.max(
+    daysPerFrame,
+    daysToExpiry / (MAX_ANIMATION_FRAMES - 1)
+  );
+  const count = Math.ceil(daysToExpiry / step - 1e-9);
+
+  return Array.from({ length: count + 1 }, (_, i) =>
+    i === count ? daysToExpiry : i * step
+  );
+};
+
+// Bounds shared by every frame so the axis does not rescale during playback
+export const frameValueRange = (
+  frames: number[][]
+): [number, number] | undefined => {
+  let min = Infinity;
+  let max = -Infinity;
+  frames.forEach((values) =>
+    values.forEach((value) => {
+      if (!Number.isFinite(value)) return;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    })
+  );
+  return min <= max ? [min, max] : undefined;
+};
@@ -0,0 +1,469 @@
+// calculations.test.ts
+// Checks the JS engine against parity relations, finite differences of its
+// own prices and published reference values. Run with `npm test`.
+import { describe, expect, it } from "vitest";
+import {
+  cdf,
+  jsAmericanImpliedVolatility,
+  jsCalculateAmericanGreeks,
+  jsCalculateGreeks,
+  jsImpliedVolatility,
+} from "./calculations";
+import { Greeks, PricingModel } from "./types";
+
+interface Case {
+  S: number;
+  K: number;
+  T: number;
+  r: number;
+  q: number;
+  sigma: number;
+}
+
+const price = (
+  type: string,
+  { S, K, T, r, q, sigma }: Case,
+  model: PricingModel
+) => jsCalculateGreeks(type, S, K, T, r, q, sigma, model).price;
+
+// Bachelier vols are in price units and its forwards may be negative
+const CASES: Record<PricingModel, Case[]> = {
+  blackScholes: [
+    { S: 100, K: 100, T: 1, r: 0.05, q: 0.02, sigma: 0.2 },
+    { S: 80, K: 100, T: 0.25, r: 0.03, q: 0, sigma: 0.35 },
+    { S: 130, K: 100, T: 2, r: 0.01, q: 0.04, sigma: 0.15 },
+  ],
+  black76: [
+    { S: 100, K: 100, T: 1, r: 0.05, q: 0, sigma: 0.2 },
+    { S: 90, K: 105, T: 0.5, r: 0.02, q: 0, sigma: 0.4 },
+  ],
+  bachelier: [
+    { S: 100, K: 100, T: 1, r: 0.05, q: 0, sigma: 20 },
+    { S: -1, K: 0.5, T: 0.5, r: -0.005, q: 0, sigma: 1.2 },
+    { S: 120, K: 100, T: 2, r: 0.02, q: 0, sigma: 15 },
+  ],
+};
+
+const MODELS = Object.keys(CASES) as PricingModel[];
+
+// Reference values from the complementary error function in double precision
+describe("normal CDF", () => {
+  it("matches erfc to double precision", () => {
+    [
+      [-8, 6.220960574271819e-16],
+      [-5, 2.866515718791946e-7],
+      [-3, 0.0013498980316300957],
+      [-1.96, 0.024997895148220435],
+      [-1, 0.15865525393145707],
+      [-0.5, 0.3085375387259869],
+      [0, 0.5],
+      [0.5, 0.6914624612740131],
+      [1, 0.8413447460685429],
+      [2, 0.9772498680518208],
+      [3, 0.9986501019683699],
+    ].forEach(([x, expected]) => {
+      expect(Math.abs(cdf(x) - expected), `x = ${x}`).toBeLessThan(1e-15);
+    });
+    // The far tail keeps about eight significant digits
+    expect(cdf(-8) / 6.220960574271819e-16).toBeCloseTo(1, 7);
+  });
+
+  it("is symmetric, saturates and propagates NaN", () => {
+    for (let x = -10; x <= 10; x += 0.25) {
+      expect(cdf(x) + cdf(-x)).toBeCloseTo(1, 15);
+    }
+    expect(cdf(-40)).toBe(0);
+    expect(cdf(40)).toBe(1);
+    expect(cdf(NaN)).toBeNaN();
+  });
+});
+
+describe("put-call parity", () => {
+  // Black-Scholes carries the dividend yield; the other models read S as the
+  // forward, so only the discount factor remains
+  const forwardValue: Record<PricingModel, (point: Case) => number> = {
+    blackScholes: ({ S, K, T, r, q }) =>
+      S * Math.exp(-q * T) - K * Math.exp(-r * T),
+    black76: ({ S, K, T, r }) => Math.exp(-r * T) * (S - K),
+    bachelier: ({ S, K, T, r }) => Math.exp(-r * T) * (S - K),
+  };
+
+  MODELS.forEach((model) =>
+    it(model, () => {
+      CASES[model].forEach((point) => {
+        const parity = price("call", point, model) - price("put", point, model);
+        expect(parity).toBeCloseTo(forwardValue[model](point), 6);
+      });
+    })
+  );
+
+  it("holds across a wide strike ladder", () => {
+    for (let K = 40; K <= 200; K += 5) {
+      const point = { S: 100, K, T: 0.75, r: 0.04, q: 0.01, sigma: 0.3 };
+      expect(
+        price("call", point, "blackScholes") -
+          price("put", point, "blackScholes")
+      ).toBeCloseTo(forwardValue.blackScholes(point), 6);
+    }
+  });
+});
+
+describe("Greeks against finite differences of price", () => {
+  type Bumps = Record<"S" | "T" | "sigma" | "r", number>;
+
+  // Central differences of price in any combination of inputs, so third-order
+  // Greeks come from price alone rather than from the analytic lower orders
+  const differentiate =
+    (f: (point: Case) => number, variable: keyof Bumps, step: number) =>
+    (point: Case) =>
+      (f({ ...point, [variable]: point[variable] + step }) -
+        f({ ...point, [variable]: point[variable] - step })) /
+      (2 * step);
+
+  // Same units as the engine: per day with time passing, per 1% of rate and
+  // volatility
+  const estimates = (
+    f: (point: Case) => number,
+    h: Bumps
+  ): Record<Exclude<keyof Greeks, "price">, (point: Case) => number> => {
+    const dS = (g: (point: Case) => number) => differentiate(g, "S", h.S);
+    const dT = (g: (point: Case) => number) => differentiate(g, "T", h.T);
+    const dSigma = (g: (point: Case) => number) =>
+      differentiate(g, "sigma", h.sigma);
+    const perDay = (g: (point: Case) => number) => (point: Case) =>
+      -g(point) / 365;
+    const perPercent = (g: (point: Case) => number) => (point: Case) =>
+      g(point) / 100;
+
+    return {
+      delta: dS(f),
+      gamma: dS(dS(f)),
+      theta: perDay(dT(f)),
+      vega: perPercent(dSigma(f)),
+      rho: perPercent(differentiate(f, "r", h.r)),
+      vanna: perPercent(dSigma(dS(f))),
+      volga: perPercent(perPercent(dSigma(dSigma(f)))),
+      charm: perDay(dT(dS(f))),
+      speed: dS(dS(dS(f))),
+      color: perDay(dT(dS(dS(f)))),
+      zomma: perPercent(dSigma(dS(dS(f)))),
+    };
+  };
+
+  // Steps scale with each model's natural units, small enough for truncation
+  // error yet large enough that the third differences stay out of rounding
+  // noise
+  const scale = (point: Case, model: PricingModel): Bumps => ({
+    S:
+      model === "bachelier"
+        ? point.sigma * Math.sqrt(point.T) * 0.005
+        : point.S * 0.002,
+    T: point.T * 0.002,
+    sigma: point.sigma * 0.002,
+    r: 1e-4,
+  });
+
+  MODELS.forEach((model) =>
+    ["call", "put"].forEach((type) =>
+      it(`${model} ${type}`, () => {
+        CASES[model].forEach((point) => {
+          const greeks = jsCalculateGreeks(
+            type,
+            point.S,
+            point.K,
+            point.T,
+            point.r,
+            point.q,
+            point.sigma,
+            model
+          );
+          const fd = estimates(
+            (bumped) => price(type, bumped, model),
+            scale(point, model)
+          );
+          Object.entries(fd).forEach(([greek, estimate]) => {
+            const analytic = greeks[greek as keyof Greeks];
+            const tolerance = 1e-3 * Math.abs(analytic) + 1e-9;
+            expect(
+              Math.abs(estimate(point) - analytic),
+              `${greek} at ${JSON.stringify(point)}`
+            ).toBeLessThan(tolerance);
+          });
+        });
+      })
+    )
+  );
+});
+
+describe("expiry and boundary cases", () => {
+  const ZERO_GREEKS: Array<keyof Greeks> = [
+    "gamma",
+    "theta",
+    "vega",
+    "rho",
+    "vanna",
+    "volga",
+    "charm",
+    "speed",
+    "color",
+    "zomma",
+  ];
+
+  MODELS.forEach((model) =>
+    it(`${model} pays intrinsic value at and past expiry`, () => {
+      [0, -0.1].forEach((T) => {
+        const call = jsCalculateGreeks(
+          "call",
+          110,
+          100,
+          T,
+          0.05,
+          0,
+          0.2,
+          model
+        );
+        const put = jsCalculateGreeks("put", 90, 100, T, 0.05, 0, 0.2, model);
+        expect(call.price).toBeCloseTo(10, 12);
+        expect(call.delta).toBe(1);
+        expect(put.price).toBeCloseTo(10, 12);
+        expect(put.delta).toBe(-1);
+        ZERO_GREEKS.forEach((greek) => {
+          expect(call[greek]).toBeCloseTo(0, 12);
+          expect(put[greek]).toBeCloseTo(0, 12);
+        });
+      });
+    })
+  );
+
+  it("converges to discounted forward intrinsic value as sigma shrinks", () => {
+    const [S, K, T, r, q] = [100, 95, 1, 0.05, 0.02];
+    const forwardIntrinsic = S * Math.exp(-q * T) - K * Math.exp(-r * T);
+    const call = jsCalculateGreeks("call", S, K, T, r, q, 1e-6);
+    const put = jsCalculateGreeks("put", S, K, T, r, q, 1e-6);
+    expect(call.price).toBeCloseTo(forwardIntrinsic, 8);
+    expect(call.delta).toBeCloseTo(Math.exp(-q * T), 8);
+    expect(put.price).toBeCloseTo(0, 8);
+    expect(put.delta).toBeCloseTo(0, 8);
+  });
+
+  MODELS.forEach((model) =>
+    it(`${model} meets the small-vol limit at zero volatility`, () => {
+      const tiny = model === "bachelier" ? 1e-7 : 1e-8;
+      ["call", "put"].forEach((type) => {
+        const limit = jsCalculateGreeks(type, 100, 95, 1, 0.05, 0.02, 0, model);
+        const near = jsCalculateGreeks(
+          type,
+          100,
+          95,
+          1,
+          0.05,
+          0.02,
+          tiny,
+          model
+        );
+        Object.entries(limit).forEach(([greek, value]) =>
+          expect(Number.isFinite(value), `${type} ${greek}`).toBe(true)
+        );
+        (["price", "delta", "theta", "rho", "charm"] as const).forEach(
+          (greek) =>
+            expect(limit[greek], `${type} ${greek}`).toBeCloseTo(near[greek], 8)
+        );
+      });
+    })
+  );
+
+  it("stays finite and tends to intrinsic value as expiry nears", () => {
+    MODELS.forEach((model) =>
+      [1e-9, 1e-30].forEach((T) => {
+        const atm = jsCalculateGreeks("call", 100, 100, T, 0.05, 0, 0.2, model);
+        const itm = jsCalculateGreeks("put", 90, 100, T, 0.05, 0, 0.2, model);
+        [atm, itm].forEach((greeks) =>
+          Object.values(greeks).forEach((value) =>
+            expect(Number.isFinite(value)).toBe(true)
+          )
+        );
+        expect(atm.price).toBeCloseTo(0, 2);
+        expect(itm.price).toBeCloseTo(10, 6);
+      })
+    );
+  });
+
+  it("prices non-positive spots and strikes at their lognormal limits", () => {
+    const [T, r, q, sigma] = [1, 0.05, 0.02, 0.3];
+    const zeroStrikeCall = jsCalculateGreeks("call", 100, 0, T, r, q, sigma);
+    expect(zeroStrikeCall.price).toBeCloseTo(100 * Math.exp(-q * T), 12);
+    expect(zeroStrikeCall.delta).toBeCloseTo(Math.exp(-q * T), 12);
+    expect(zeroStrikeCall.gamma).toBe(0);
+    expect(jsCalculateGreeks("put", 100, -5, T, r, q, sigma).price).toBe(0);
+
+    const zeroSpotPut = jsCalculateGreeks("put", 0, 100, T, r, q, sigma);
+    expect(zeroSpotPut.price).toBeCloseTo(100 * Math.exp(-r * T), 12);
+    expect(zeroSpotPut.rho).toBeCloseTo(
+      (-T * 100 * Math.exp(-r * T)) / 100,
+      12
+    );
+    expect(jsCalculateGreeks("call", 0, 100, T, r, q, sigma).price).toBe(0);
+  });
+
+  it("exercises an American put at once when its path is known", () => {
+    // Deep in the money with no volatility, waiting only forgoes interest
+    const put = jsCalculateAmericanGreeks("put", 50, 100, 1, 0.05, 0, 0);
+    expect(put.price).toBe(50);
+    expect(put.delta).toBe(-1);
+    const call = jsCalculateAmericanGreeks("call", 120, 100, 1, 0.05, 0, 0);
+    expect(call.price).toBeCloseTo(120 - 100 * Math.exp(-0.05), 12);
+  });
+
+  it("approaches the forward for deep in-the-money options", () => {
+    const [K, T, r, q, sigma] = [100, 1, 0.05, 0.02, 0.2];
+    const call = jsCalculateGreeks("call", 1000, K, T, r, q, sigma);
+    const put = jsCalculateGreeks("put", 1, K, T, r, q, sigma);
+    expect(call.price).toBeCloseTo(
+      1000 * Math.exp(-q * T) - K * Math.exp(-r * T),
+      8
+    );
+    expect(call.delta).toBeCloseTo(Math.exp(-q * T), 8);
+    expect(put.price).toBeCloseTo(K * Math.exp(-r * T) - Math.exp(-q * T), 8);
+    expect(put.gamma).toBeCloseTo(0, 12);
+  });
+
+  it("is worthless and flat for deep out-of-the-money options", () => {
+    const call = jsCalculateGreeks("call", 1, 100, 1, 0.05, 0, 0.2);
+    const put = jsCalculateGreeks("put", 1000, 100, 1, 0.05, 0, 0.2);
+    [call, put].forEach((greeks) => {
+      expect(greeks.price).toBeCloseTo(0, 12);
+      expect(greeks.delta).toBeCloseTo(0, 12);
+      expect(greeks.vega).toBeCloseTo(0, 12);
+    });
+  });
+
+  it("rejects implied volatility outside the no-arbitrage bounds", () => {
+    expect(jsImpliedVolatility("call", 0, 100, 100, 1, 0.05, 0).status).toBe(
+      "invalidInput"
+    );
+    expect(
+      jsImpliedVolatility("call", 101, 100, 100, 1, 0.05, 0).status
+    ).not.toBe("ok");
+    expect(jsImpliedVolatility("put", 1, 100, 50, 0, 0.05, 0).status).toBe(
+      "invalidInput"
+    );
+  });
+});
+
+describe("reference values", () => {
+  // Hull, Options, Futures and Other Derivatives, Example 15.6
+  it("matches Hull's European call and put", () => {
+    const hull = { S: 42, K: 40, T: 0.5, r: 0.1, q: 0, sigma: 0.2 };
+    expect(price("call", hull, "blackScholes")).toBeCloseTo(4.76, 2);
+    expect(price("put", hull, "blackScholes")).toBeCloseTo(0.81, 2);
+  });
+
+  // Haug, The Complete Guide to Option Pricing Formulas, chapter 1
+  it("matches Haug's generalized Black-Scholes examples", () => {
+    expect(
+      jsCalculateGreeks("call", 60, 65, 0.25, 0.08, 0, 0.3).price
+    ).toBeCloseTo(2.1334, 4);
+    expect(
+      jsCalculateGreeks("put", 100, 95, 0.5, 0.1, 0.05, 0.2).price
+    ).toBeCloseTo(2.4648, 4);
+    expect(
+      jsCalculateGreeks("call", 55, 60, 0.75, 0.1, 0, 0.3).gamma
+    ).toBeCloseTo(0.0278, 4);
+    expect(
+      jsCalculateGreeks("put", 430, 405, 0.0833, 0.07, 0.05, 0.2).theta * 365
+    ).toBeCloseTo(-31.1924, 3);
+    expect(
+      jsCalculateGreeks("call", 72, 75, 1, 0.09, 0, 0.19).rho * 100
+    ).toBeCloseTo(38.7325, 3);
+  });
+
+  it("matches Haug's Black-76 examples", () => {
+    const call = jsCalculateGreeks(
+      "call",
+      19,
+      19,
+      0.75,
+      0.1,
+      0,
+      0.28,
+      "black76"
+    );
+    const put = jsCalculateGreeks("put", 19, 19, 0.75, 0.1, 0, 0.28, "black76");
+    expect(call.price).toBeCloseTo(1.7011, 4);
+    expect(put.price).toBeCloseTo(1.7011, 4);
+    expect(
+      jsCalculateGreeks("call", 105, 100, 0.5, 0.1, 0, 0.36, "black76").delta
+    ).toBeCloseTo(0.5946, 4);
+    expect(
+      jsCalculateGreeks("put", 105, 100, 0.5, 0.1, 0, 0.36, "black76").delta
+    ).toBeCloseTo(-0.3566, 4);
+  });
+
+  it("matches the closed-form at-the-money Bachelier price", () => {
+    const call = jsCalculateGreeks("call", 100, 100, 1, 0, 0, 20, "bachelier");
+    expect(call.price).toBeCloseTo(20 / Math.sqrt(2 * Math.PI), 10);
+    expect(call.delta).toBeCloseTo(0.5, 12);
+  });
+
+  // Longstaff and Schwartz (2001), Table 1 finite-difference values; the
+  // 150-step tree lands within two cents
+  it("matches Longstaff-Schwartz American put benchmarks", () => {
+    [
+      { S: 36, T: 1, sigma: 0.2, expected: 4.478 },
+      { S: 36, T: 2, sigma: 0.2, expected: 4.84 },
+      { S: 44, T: 1, sigma: 0.4, expected: 3.948 },
+    ].forEach(({ S, T, sigma, expected }) => {
+      const { price } = jsCalculateAmericanGreeks(
+        "put",
+        S,
+        40,
+        T,
+        0.06,
+        0,
+        sigma
+      );
+      expect(Math.abs(price - expected)).toBeLessThan(0.02);
+    });
+  });
+
+  it("recovers the volatility behind a price", () => {
+    const { price: target } = jsCalculateGreeks(
+      "put",
+      100,
+      110,
+      0.5,
+      0.03,
+      0.01,
+      0.27
+    );
+    const { sigma, status } = jsImpliedVolatility(
+      "put",
+      target,
+      100,
+      110,
+      0.5,
+      0.03,
+      0.01
+    );
+    expect(status).toBe("ok");
+    expect(sigma).toBeCloseTo(0.27, 6);
+  });
+
+  it("recovers the volatility behind an American put price", () => {
+    const { price } = jsCalculateAmericanGreeks("put", 36, 40, 1, 0.06, 0, 0.2);
+    const american = jsAmericanImpliedVolatility(
+      "put",
+      price,
+      36,
+      40,
+      1,
+      0.06,
+      0
+    );
+    expect(american.status).toBe("ok");
+    expect(american.sigma).toBeCloseTo(0.2, 6);
+    // The early-exercise premium would otherwise read as extra volatility
+    const european = jsImpliedVolatility("put", price, 36, 40, 1, 0.06, 0);
+    expect(european.sigma).toBeGreaterThan(0.24);
+  });
+});
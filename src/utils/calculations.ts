@@ -1,39 +1,122 @@
 // calculations.ts
-import { Greeks } from "./types";
+import {
+  BarrierType,
+  ChartDataPoint,
+  Greeks,
+  ImpliedVolatilityResult,
+  OptionParams,
+  PayoffLeg,
+  PayoffSummary,
+  PricingModel,
+} from "./types";
 
-export const d1 = (S: number, K: number, T: number, r: number, sigma: number) =>
-  (Math.log(S / K) + (r + (sigma * sigma) / 2) * T) / (sigma * Math.sqrt(T));
+// Below this spread the terminal price is effectively known, so pricing takes
+// the deterministic limit rather than dividing by a vanishing sigma·√T
+export const MIN_STD_DEV = 1e-10;
 
-export const d2 = (S: number, K: number, T: number, r: number, sigma: number) =>
-  d1(S, K, T, r, sigma) - sigma * Math.sqrt(T);
+export const d1 = (
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number,
+  sigma: number
+) =>
+  (Math.log(S / K) + (r - q + (sigma * sigma) / 2) * T) /
+  Math.max(sigma * Math.sqrt(T), MIN_STD_DEV);
 
-export const cdf = (x: number) => {
-  const a1 = 0.254829592;
-  const a2 = -0.284496736;
-  const a3 = 1.421413741;
-  const a4 = -1.453152027;
-  const a5 = 1.061405429;
-  const p = 0.3275911;
+export const d2 = (
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number,
+  sigma: number
+) => d1(S, K, T, r, q, sigma) - sigma * Math.sqrt(T);
 
-  const sign = x < 0 ? -1 : 1;
-  const z = Math.abs(x) / Math.sqrt(2);
+// Hart's double-precision algorithm as given by West (2005), with absolute
+// error near machine precision across the whole line
+const CDF_NUMERATOR = [
+  0.0352624965998911, 0.700383064443688, 6.37396220353165, 33.912866078383,
+  112.079291497871, 221.213596169931, 220.206867912376,
+];
+const CDF_DENOMINATOR = [
+  0.0883883476483184, 1.75566716318264, 16.064177579207, 86.7807322029461,
+  296.564248779674, 637.333633378831, 793.826512519948, 440.413735824752,
+];
 
-  const t = 1.0 / (1.0 + p * z);
-  const erf =
-    1.0 - ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * Math.exp(-z * z);
+const polynomial = (coefficients: number[], x: number) =>
+  coefficients.reduce((sum, coefficient) => sum * x + coefficient, 0);
 
-  return 0.5 * (1.0 + sign * erf);
+export const cdf = (x: number) => {
+  const z = Math.abs(x);
+  let tail = 0;
+
+  // Beyond 37 the tail underflows; NaN falls through to the polynomial
+  if (z > 37) {
+    tail = 0;
+  } else if (z >= 7.07106781186547) {
+    // Continued fraction for the far tail
+    const fraction = z + 1 / (z + 2 / (z + 3 / (z + 4 / (z + 0.65))));
+    tail = Math.exp((-z * z) / 2) / fraction / 2.506628274631;
+  } else {
+    tail =
+      (Math.exp((-z * z) / 2) * polynomial(CDF_NUMERATOR, z)) /
+      polynomial(CDF_DENOMINATOR, z);
+  }
+
+  return x > 0 ? 1 - tail : tail;
 };
 
 export const normalPDF = (x: number) =>
   Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
 
-export const jsCalculateGreeks = (
+// Deterministic limit once the terminal price is known: a forward contract
+// when the forward is in the money, worthless otherwise
+const forwardLimitGreeks = (
+  type: string,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number
+): Greeks => {
+  const sign = type === "call" ? 1 : -1;
+  const dividendDiscount = Math.exp(-q * T);
+  const asset = S * dividendDiscount;
+  const strike = K * Math.exp(-r * T);
+  const isInTheMoney = sign * (asset - strike) > 0;
+
+  return {
+    delta: isInTheMoney ? sign * dividendDiscount : 0,
+    gamma: 0,
+    theta: isInTheMoney ? (sign * (q * asset - r * strike)) / 365 : 0,
+    vega: 0,
+    rho: isInTheMoney ? (sign * T * strike) / 100 : 0,
+    price: isInTheMoney ? sign * (asset - strike) : 0,
+    vanna: 0,
+    volga: 0,
+    charm: isInTheMoney ? (sign * q * dividendDiscount) / 365 : 0,
+    speed: 0,
+    color: 0,
+    zomma: 0,
+  };
+};
+
+// The lognormal model breaks down without spread or with a non-positive spot
+// or strike. Each of these has a known outcome: a zero spot stays at zero, a
+// non-positive strike always ends in the money for a call and out of it for
+// a put, and without spread the terminal price is the forward.
+const isForwardLimit = (S: number, K: number, T: number, sigma: number) =>
+  S <= 0 || K <= 0 || !(sigma * Math.sqrt(T) >= MIN_STD_DEV);
+
+const blackScholesGreeks = (
   type: string,
   S: number,
   K: number,
   T: number,
   r: number,
+  q: number,
   sigma: number
 ): Greeks => {
   if (T <= 0) {
@@ -46,12 +129,21 @@ export const jsCalculateGreeks = (
       vega: 0,
       rho: 0,
       price: isInTheMoney ? Math.abs(S - K) : 0,
+      vanna: 0,
+      volga: 0,
+      charm: 0,
+      speed: 0,
+      color: 0,
+      zomma: 0,
     };
   }
+  if (isForwardLimit(S, K, T, sigma)) {
+    return forwardLimitGreeks(type, S, K, T, r, q);
+  }
 
-  const d1Value = d1(S, K, T, r, sigma);
-  const d2Value = d2(S, K, T, r, sigma);
-  ("");
+  const d1Value = d1(S, K, T, r, q, sigma);
+  const d2Value = d2(S, K, T, r, q, sigma);
+  const dividendDiscount = Math.exp(-q * T);
 
   const N_d1 = cdf(d1Value);
   const N_d2 = cdf(d2Value);
@@ -60,29 +152,626 @@ export const jsCalculateGreeks = (
 
   const price =
     type === "call"
-      ? S * N_d1 - K * Math.exp(-r * T) * N_d2
-      : K * Math.exp(-r * T) * N_neg_d2 - S * N_neg_d1;
+      ? S * dividendDiscount * N_d1 - K * Math.exp(-r * T) * N_d2
+      : K * Math.exp(-r * T) * N_neg_d2 - S * dividendDiscount * N_neg_d1;
+
+  let delta, gamma, theta, vega, rho, charm;
 
-  let delta, gamma, theta, vega, rho;
+  const sqrtT = Math.sqrt(T);
+  const pdf_d1 = normalPDF(d1Value);
+  // Shared by charm and color: (2(r - q)T - d2 σ√T) / (2T σ√T)
+  const driftTerm =
+    (2 * (r - q) * T - d2Value * sigma * sqrtT) / (2 * T * sigma * sqrtT);
 
   if (type === "call") {
-    delta = N_d1;
+    delta = dividendDiscount * N_d1;
     rho = (K * T * Math.exp(-r * T) * N_d2) / 100;
     theta =
-      (-S * sigma * normalPDF(d1Value)) / (2 * Math.sqrt(T)) -
-      r * K * Math.exp(-r * T) * N_d2;
+      (-S * dividendDiscount * sigma * normalPDF(d1Value)) /
+        (2 * Math.sqrt(T)) -
+      r * K * Math.exp(-r * T) * N_d2 +
+      q * S * dividendDiscount * N_d1;
+    charm = q * dividendDiscount * N_d1 - dividendDiscount * pdf_d1 * driftTerm;
   } else {
-    delta = N_d1 - 1;
+    delta = dividendDiscount * (N_d1 - 1);
     rho = (-K * T * Math.exp(-r * T) * N_neg_d2) / 100;
     theta =
-      (-S * sigma * normalPDF(d1Value)) / (2 * Math.sqrt(T)) +
-      r * K * Math.exp(-r * T) * N_neg_d2;
+      (-S * dividendDiscount * sigma * normalPDF(d1Value)) /
+        (2 * Math.sqrt(T)) +
+      r * K * Math.exp(-r * T) * N_neg_d2 -
+      q * S * dividendDiscount * N_neg_d1;
+    charm =
+      -q * dividendDiscount * N_neg_d1 - dividendDiscount * pdf_d1 * driftTerm;
   }
 
-  gamma = normalPDF(d1Value) / (S * sigma * Math.sqrt(T));
-  vega = (S * Math.sqrt(T) * normalPDF(d1Value)) / 100;
+  gamma = (dividendDiscount * normalPDF(d1Value)) / (S * sigma * Math.sqrt(T));
+  vega = (S * dividendDiscount * Math.sqrt(T) * normalPDF(d1Value)) / 100;
 
   theta = theta / 365;
 
-  return { delta, gamma, theta, vega, rho, price };
+  // Higher-order Greeks, scaled like the first-order ones: per day for time
+  // derivatives and per 1% move for volatility derivatives.
+  const vanna = (-dividendDiscount * pdf_d1 * d2Value) / sigma / 100;
+  const volga =
+    (S * dividendDiscount * sqrtT * pdf_d1 * d1Value * d2Value) / sigma / 10000;
+  const speed = (-gamma / S) * (d1Value / (sigma * sqrtT) + 1);
+  const zomma = (gamma * (d1Value * d2Value - 1)) / sigma / 100;
+  const color =
+    ((gamma / (2 * T)) * (2 * q * T + 1 + 2 * T * driftTerm * d1Value)) / 365;
+
+  return {
+    delta,
+    gamma,
+    theta,
+    vega,
+    rho,
+    price,
+    vanna,
+    volga,
+    charm: charm / 365,
+    speed,
+    color,
+    zomma,
+  };
+};
+
+// Normal model on the forward F; sigma is in price units, so F and K may be
+// negative
+const bachelierGreeks = (
+  type: string,
+  F: number,
+  K: number,
+  T: number,
+  r: number,
+  sigma: number
+): Greeks => {
+  // Expiry and zero-spread payoffs depend only on the forward, where the
+  // normal and lognormal models agree
+  if (T <= 0 || !(sigma * Math.sqrt(T) >= MIN_STD_DEV)) {
+    return black76Greeks(type, F, K, T, r, sigma);
+  }
+
+  const discount = Math.exp(-r * T);
+  const sqrtT = Math.sqrt(T);
+  const stdDev = sigma * sqrtT;
+  const d = (F - K) / stdDev;
+  const pdf = normalPDF(d);
+
+  const price =
+    type === "call"
+      ? discount * ((F - K) * cdf(d) + stdDev * pdf)
+      : discount * ((K - F) * cdf(-d) + stdDev * pdf);
+  const delta = type === "call" ? discount * cdf(d) : discount * (cdf(d) - 1);
+  const gamma = (discount * pdf) / stdDev;
+
+  return {
+    delta,
+    gamma,
+    theta: (r * price - (discount * sigma * pdf) / (2 * sqrtT)) / 365,
+    vega: (discount * sqrtT * pdf) / 100,
+    rho: (-T * price) / 100,
+    price,
+    vanna: (-discount * pdf * d) / sigma / 100,
+    volga: (discount * sqrtT * pdf * d * d) / sigma / 10000,
+    charm: (r * delta + (discount * pdf * d) / (2 * T)) / 365,
+    speed: (-discount * pdf * d) / (stdDev * stdDev),
+    color: (gamma * (r - (d * d - 1) / (2 * T))) / 365,
+    zomma: (gamma * (d * d - 1)) / sigma / 100,
+  };
+};
+
+// Black-Scholes with the carry equal to the rate, except that rho holds the
+// futures price fixed
+const black76Greeks = (
+  type: string,
+  F: number,
+  K: number,
+  T: number,
+  r: number,
+  sigma: number
+): Greeks => {
+  const greeks = blackScholesGreeks(type, F, K, T, r, r, sigma);
+  return { ...greeks, rho: T > 0 ? (-T * greeks.price) / 100 : 0 };
+};
+
+export const jsCalculateGreeks = (
+  type: string,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number,
+  sigma: number,
+  model: PricingModel = "blackScholes"
+): Greeks => {
+  if (model === "bachelier") return bachelierGreeks(type, S, K, T, r, sigma);
+  if (model === "black76") return black76Greeks(type, S, K, T, r, sigma);
+  return blackScholesGreeks(type, S, K, T, r, q, sigma);
+};
+
+const IV_MIN = 1e-6;
+const IV_MAX = 5;
+const IV_TOLERANCE = 1e-8;
+const IV_MAX_ITERATIONS = 100;
+
+export const jsImpliedVolatility = (
+  type: string,
+  price: number,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number
+): ImpliedVolatilityResult => {
+  if (!(price > 0) || !(S > 0) || !(K > 0) || !(T > 0)) {
+    return { sigma: NaN, status: "invalidInput" };
+  }
+
+  const discountedStrike = K * Math.exp(-r * T);
+  const discountedSpot = S * Math.exp(-q * T);
+  const lowerBound =
+    type === "call"
+      ? Math.max(0, discountedSpot - discountedStrike)
+      : Math.max(0, discountedStrike - discountedSpot);
+  const upperBound = type === "call" ? discountedSpot : discountedStrike;
+
+  if (price <= lowerBound) {
+    return { sigma: NaN, status: "belowIntrinsic" };
+  }
+  if (price >= upperBound) {
+    return { sigma: NaN, status: "aboveUpperBound" };
+  }
+
+  // Newton-Raphson, falling back to bisection whenever a step leaves the
+  // bracket or vega is too small to be useful.
+  let low = IV_MIN;
+  let high = IV_MAX;
+  let sigma = 0.2;
+
+  for (let i = 0; i < IV_MAX_ITERATIONS; i++) {
+    const { price: modelPrice, vega } = jsCalculateGreeks(
+      type,
+      S,
+      K,
+      T,
+      r,
+      q,
+      sigma
+    );
+    const diff = modelPrice - price;
+
+    if (Math.abs(diff) < IV_TOLERANCE) {
+      return { sigma, status: "ok" };
+    }
+
+    if (diff > 0) {
+      high = sigma;
+    } else {
+      low = sigma;
+    }
+
+    const rawVega = vega * 100;
+    const next = rawVega > 1e-10 ? sigma - diff / rawVega : NaN;
+    sigma = next > low && next < high ? next : (low + high) / 2;
+
+    if (high - low < IV_TOLERANCE) {
+      return high < IV_MAX
+        ? { sigma, status: "ok" }
+        : { sigma: NaN, status: "noConvergence" };
+    }
+  }
+
+  return { sigma: NaN, status: "noConvergence" };
+};
+
+export const AMERICAN_TREE_STEPS = 150;
+
+interface BinomialResult {
+  price: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+}
+
+// Cox-Ross-Rubinstein tree with early exercise checked at every node. Delta,
+// gamma and theta are read off the first two layers of the tree.
+const binomialTree = (
+  type: string,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number,
+  sigma: number,
+  steps: number
+): BinomialResult => {
+  const dt = T / steps;
+  const u = Math.exp(sigma * Math.sqrt(dt));
+  const d = 1 / u;
+  const p = (Math.exp((r - q) * dt) - d) / (u - d);
+  const discount = Math.exp(-r * dt);
+  const payoff = (price: number) =>
+    type === "call" ? Math.max(price - K, 0) : Math.max(K - price, 0);
+
+  const u2 = u * u;
+  const values = new Float64Array(steps + 1);
+  let terminalPrice = S * Math.pow(d, steps);
+  for (let j = 0; j <= steps; j++) {
+    values[j] = payoff(terminalPrice);
+    terminalPrice *= u2;
+  }
+
+  let layer1: number[] = [];
+  let layer2: number[] = [];
+
+  for (let i = steps - 1; i >= 0; i--) {
+    let nodePrice = S * Math.pow(d, i);
+    for (let j = 0; j <= i; j++) {
+      const continuation = discount * (p * values[j + 1] + (1 - p) * values[j]);
+      values[j] = Math.max(continuation, payoff(nodePrice));
+      nodePrice *= u2;
+    }
+    if (i === 2) layer2 = [values[0], values[1], values[2]];
+    if (i === 1) layer1 = [values[0], values[1]];
+  }
+
+  const price = values[0];
+  if (steps < 2) {
+    return { price, delta: 0, gamma: 0, theta: 0 };
+  }
+
+  const Su = S * u;
+  const Sd = S * d;
+  const Suu = S * u * u;
+  const Sdd = S * d * d;
+
+  const delta = (layer1[1] - layer1[0]) / (Su - Sd);
+  const gamma =
+    ((layer2[2] - layer2[1]) / (Suu - S) -
+      (layer2[1] - layer2[0]) / (S - Sdd)) /
+    (0.5 * (Suu - Sdd));
+  const theta = (layer2[1] - price) / (2 * dt);
+
+  return { price, delta, gamma, theta };
+};
+
+// The American price alone, without the bump-and-reprice Greeks
+const jsCalculateAmericanPrice = (
+  type: string,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number,
+  sigma: number
+): number => {
+  if (isForwardLimit(S, K, T, sigma)) {
+    return Math.max(
+      forwardLimitGreeks(type, S, K, T, r, q).price,
+      jsCalculateGreeks(type, S, K, 0, r, q, sigma).price
+    );
+  }
+  return binomialTree(type, S, K, T, r, q, sigma, AMERICAN_TREE_STEPS).price;
+};
+
+export const jsCalculateAmericanGreeks = (
+  type: string,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number,
+  sigma: number,
+  steps: number = AMERICAN_TREE_STEPS
+): Greeks => {
+  if (T <= 0) {
+    return jsCalculateGreeks(type, S, K, T, r, q, sigma);
+  }
+  // With a known path the holder either exercises now or waits for expiry
+  if (isForwardLimit(S, K, T, sigma)) {
+    const european = forwardLimitGreeks(type, S, K, T, r, q);
+    const exercised = jsCalculateGreeks(type, S, K, 0, r, q, sigma);
+    return exercised.price > european.price ? exercised : european;
+  }
+
+  const { price, delta, gamma, theta } = binomialTree(
+    type,
+    S,
+    K,
+    T,
+    r,
+    q,
+    sigma,
+    steps
+  );
+
+  // Everything the first two tree layers can't give is bump and reprice
+  const volBump = 0.01;
+  const rateBump = 0.001;
+  const spotBump = 0.01 * S;
+  const timeBump = Math.min(1 / 365, T / 2);
+  const volUp = sigma + volBump;
+  const volDown = Math.max(sigma - volBump, 1e-4);
+  const upVol = binomialTree(type, S, K, T, r, q, volUp, steps);
+  const downVol = binomialTree(type, S, K, T, r, q, volDown, steps);
+  const upSpot = binomialTree(type, S + spotBump, K, T, r, q, sigma, steps);
+  const downSpot = binomialTree(type, S - spotBump, K, T, r, q, sigma, steps);
+  const later = binomialTree(type, S, K, T - timeBump, r, q, sigma, steps);
+
+  const volRange = volUp - volDown;
+  const hUp = volUp - sigma;
+  const hDown = sigma - volDown;
+
+  const vega = (upVol.price - downVol.price) / volRange / 100;
+  const rho =
+    (binomialTree(type, S, K, T, r + rateBump, q, sigma, steps).price -
+      binomialTree(type, S, K, T, r - rateBump, q, sigma, steps).price) /
+    (2 * rateBump) /
+    100;
+  const vanna = (upVol.delta - downVol.delta) / volRange / 100;
+  const volga =
+    (2 * (hDown * upVol.price + hUp * downVol.price - volRange * price)) /
+    (hUp * hDown * volRange) /
+    10000;
+  const charm = (later.delta - delta) / timeBump / 365;
+  const speed = (upSpot.gamma - downSpot.gamma) / (2 * spotBump);
+  const color = (later.gamma - gamma) / timeBump / 365;
+  const zomma = (upVol.gamma - downVol.gamma) / volRange / 100;
+
+  return {
+    delta,
+    gamma,
+    theta: theta / 365,
+    vega,
+    rho,
+    price,
+    vanna,
+    volga,
+    charm,
+    speed,
+    color,
+    zomma,
+  };
+};
+
+// Inverts the American tree price. The tree has no closed-form vega, so this
+// bisects, which needs only that the price rises with volatility.
+export const jsAmericanImpliedVolatility = (
+  type: string,
+  price: number,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number
+): ImpliedVolatilityResult => {
+  if (!(price > 0) || !(S > 0) || !(K > 0) || !(T > 0)) {
+    return { sigma: NaN, status: "invalidInput" };
+  }
+  // Early exercise floors the price at intrinsic rather than its discounted
+  // value
+  const intrinsic = type === "call" ? Math.max(S - K, 0) : Math.max(K - S, 0);
+  if (price <= intrinsic) {
+    return { sigma: NaN, status: "belowIntrinsic" };
+  }
+  if (price >= (type === "call" ? S : K)) {
+    return { sigma: NaN, status: "aboveUpperBound" };
+  }
+
+  let low = IV_MIN;
+  let high = IV_MAX;
+  for (let i = 0; i < IV_MAX_ITERATIONS; i++) {
+    const sigma = (low + high) / 2;
+    const diff = jsCalculateAmericanPrice(type, S, K, T, r, q, sigma) - price;
+
+    if (Math.abs(diff) < IV_TOLERANCE) {
+      return { sigma, status: "ok" };
+    }
+    if (diff > 0) {
+      high = sigma;
+    } else {
+      low = sigma;
+    }
+    if (high - low < IV_TOLERANCE) {
+      return high < IV_MAX
+        ? { sigma, status: "ok" }
+        : { sigma: NaN, status: "noConvergence" };
+    }
+  }
+
+  return { sigma: NaN, status: "noConvergence" };
+};
+
+// Critical underlying price at which early exercise becomes optimal, for each
+// layer of the tree. Layers with no exercise region are omitted.
+export const jsEarlyExerciseBoundary = (
+  type: string,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number,
+  sigma: number,
+  steps: number = AMERICAN_TREE_STEPS * 2
+): ChartDataPoint[] => {
+  if (T <= 0) return [];
+
+  const dt = T / steps;
+  const u = Math.exp(sigma * Math.sqrt(dt));
+  const d = 1 / u;
+  const p = (Math.exp((r - q) * dt) - d) / (u - d);
+  const discount = Math.exp(-r * dt);
+  const payoff = (price: number) =>
+    type === "call" ? Math.max(price - K, 0) : Math.max(K - price, 0);
+
+  const u2 = u * u;
+  const values = new Float64Array(steps + 1);
+  let terminalPrice = S * Math.pow(d, steps);
+  for (let j = 0; j <= steps; j++) {
+    values[j] = payoff(terminalPrice);
+    terminalPrice *= u2;
+  }
+
+  const boundary: ChartDataPoint[] = [];
+
+  for (let i = steps - 1; i >= 0; i--) {
+    let critical = NaN;
+    let nodePrice = S * Math.pow(d, i);
+    for (let j = 0; j <= i; j++) {
+      const continuation = discount * (p * values[j + 1] + (1 - p) * values[j]);
+      const exercise = payoff(nodePrice);
+      if (exercise > 0 && exercise >= continuation) {
+        // Puts exercise below the boundary, calls above it
+        if (type === "put" || isNaN(critical)) critical = nodePrice;
+      }
+      values[j] = Math.max(continuation, exercise);
+      nodePrice *= u2;
+    }
+    if (!isNaN(critical)) {
+      boundary.push({ parameter: T - i * dt, value: critical });
+    }
+  }
+
+  return boundary.sort((a, b) => a.parameter - b.parameter);
+};
+
+// Only Black-Scholes points are priced on the American tree
+export const jsCalculateGreeksBatch = (points: OptionParams[]): Greeks[] =>
+  points.map(({ type, exercise, S, K, T, r, q, sigma, model }) =>
+    exercise === "american" && (model ?? "blackScholes") === "blackScholes"
+      ? jsCalculateAmericanGreeks(type, S, K, T, r, q, sigma)
+      : jsCalculateGreeks(type, S, K, T, r, q, sigma, model)
+  );
+
+export const jsCalculateGreekBatch = (
+  points: OptionParams[],
+  greek: keyof Greeks
+): Float64Array =>
+  Float64Array.from(jsCalculateGreeksBatch(points), (greeks) => greeks[greek]);
+
+export const isBarrierBreached = (
+  barrierType: BarrierType,
+  S: number,
+  barrier: number
+) => (barrierType.startsWith("down") ? S <= barrier : S >= barrier);
+
+// Path-dependent payoffs settle as if the underlying had sat at S throughout
+const expiryValue = ({ type, K, exotic }: PayoffLeg, S: number) => {
+  const intrinsic = type === "call" ? Math.max(S - K, 0) : Math.max(K - S, 0);
+  if (exotic?.payoff === "cashDigital") {
+    return intrinsic > 0 ? exotic.cashPayout : 0;
+  }
+  if (exotic?.payoff === "assetDigital") return intrinsic > 0 ? S : 0;
+  if (exotic?.payoff === "barrier") {
+    const { barrierType, barrier } = exotic;
+    const knockedIn = barrierType.endsWith("In");
+    return isBarrierBreached(barrierType, S, barrier) === knockedIn
+      ? intrinsic
+      : 0;
+  }
+  return intrinsic;
+};
+
+// P&L of the legs held to expiry with the underlying at S, net of premium.
+// Every leg settles at S, so only legs sharing one expiry make sense here.
+export const jsExpiryPnl = (legs: PayoffLeg[], S: number): number =>
+  legs.reduce((total, leg) => {
+    const sign = leg.position === "long" ? 1 : -1;
+    const value = expiryValue(leg, S) - (leg.entryPrice ?? 0);
+    return total + sign * (leg.quantity || 1) * value;
+  }, 0);
+
+// Expiry P&L is piecewise linear between the strikes and barriers, so its
+// extremes and roots follow exactly from those points and the slope beyond the
+// last one. Digitals and barriers jump there, so their breakpoints are also
+// sampled just either side. A null max gain or max loss means it is unbounded
+// as the spot rises. Legs are assumed to share one expiry.
+export const jsAnalyzeExpiryPayoff = (legs: PayoffLeg[]): PayoffSummary => {
+  const levels = legs.flatMap(({ K, exotic }) =>
+    exotic?.payoff === "barrier" ? [K, exotic.barrier] : [K]
+  );
+  const hasJumps = legs.some(
+    ({ exotic }) => exotic && !["vanilla", "asian"].includes(exotic.payoff)
+  );
+  const breakpoints = [
+    ...new Set(
+      [0, ...levels].flatMap((level) => {
+        const nudge = 1e-9 * Math.max(level, 1);
+        return hasJumps ? [level - nudge, level, level + nudge] : [level];
+      })
+    ),
+  ]
+    .filter((S) => S >= 0)
+    .sort((a, b) => a - b);
+  const values = breakpoints.map((S) => jsExpiryPnl(legs, S));
+  // Quantities are whole, so the slope is too
+  const top = breakpoints[breakpoints.length - 1];
+  const upperSlope = Math.round(
+    jsExpiryPnl(legs, top + 2) - jsExpiryPnl(legs, top + 1)
+  );
+
+  const breakEvens: number[] = [];
+  for (let i = 0; i < breakpoints.length; i++) {
+    if (values[i] === 0) {
+      breakEvens.push(breakpoints[i]);
+    } else if (i > 0 && values[i - 1] * values[i] < 0) {
+      const weight = values[i - 1] / (values[i - 1] - values[i]);
+      breakEvens.push(
+        breakpoints[i - 1] + weight * (breakpoints[i] - breakpoints[i - 1])
+      );
+    }
+  }
+  const last = breakpoints.length - 1;
+  if (upperSlope !== 0 && values[last] * upperSlope < 0) {
+    breakEvens.push(breakpoints[last] - values[last] / upperSlope);
+  }
+
+  return {
+    breakEvens,
+    maxGain: upperSlope > 0 ? null : Math.max(...values),
+    maxLoss: upperSlope < 0 ? null : Math.min(...values),
+  };
+};
+
+// mulberry32, mapped to the open interval (0, 1) so logs stay finite
+export const createUniformGenerator = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t = (t + Math.imul(t ^ (t >>> 7), t | 61)) ^ t;
+    t = (t ^ (t >>> 14)) >>> 0;
+    return (t + 0.5) / 4294967296;
+  };
+};
+
+// Mirrors simulateTerminalPrices in options_calc.c: mulberry32 uniforms feed
+// Box-Muller normals, so both engines draw the same paths for a given seed.
+export const jsSimulateTerminalPrices = (
+  S: number,
+  r: number,
+  q: number,
+  sigma: number,
+  T: number,
+  count: number,
+  seed: number
+): Float64Array => {
+  const nextUniform = createUniformGenerator(seed);
+
+  const drift = (r - q - 0.5 * sigma * sigma) * T;
+  const diffusion = sigma * Math.sqrt(T);
+  const prices = new Float64Array(count);
+
+  for (let i = 0; i < count; i += 2) {
+    const radius = Math.sqrt(-2 * Math.log(nextUniform()));
+    const angle = 2 * Math.PI * nextUniform();
+
+    prices[i] = S * Math.exp(drift + diffusion * radius * Math.cos(angle));
+    if (i + 1 < count) {
+      prices[i + 1] =
+        S * Math.exp(drift + diffusion * radius * Math.sin(angle));
+    }
+  }
+
+  return prices;
 };
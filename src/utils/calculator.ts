@@ -0,0 +1,893 @@
+// calculator.ts
+import {
+  jsAmericanImpliedVolatility,
+  jsCalculateAmericanGreeks,
+  jsCalculateGreeks,
+  jsCalculateGreekBatch,
+  jsCalculateGreeksBatch,
+  jsEarlyExerciseBoundary,
+  jsExpiryPnl,
+  jsImpliedVolatility,
+  jsSimulateTerminalPrices,
+} from "./calculations";
+import {
+  AnimationFrame,
+  AnimationParams,
+  BoundaryParams,
+  CalculatorMessage,
+  CalculatorResponse,
+  DataGenerationParams,
+  DayBasis,
+  ExerciseStyle,
+  Greeks,
+  GreeksParams,
+  HedgeParams,
+  HedgeProposal,
+  HedgeSimulationParams,
+  ImpliedVolatilityParams,
+  ImpliedVolatilityResult,
+  MonteCarloParams,
+  OptionParams,
+  PortfolioParams,
+  PortfolioTotals,
+  PricingModel,
+  ScenarioParams,
+  ThreeDDataParams,
+  VolSurface,
+  VolSurfaceParams,
+  WasmModule,
+} from "./types";
+import { sweepValues } from "./sweepRanges";
+import { hasExoticPayoff, jsCalculateExoticGreeks } from "./exotics";
+import { surfaceVolatility } from "./volSurface";
+import {
+  MONTE_CARLO_GRID_STEPS,
+  interpolateGrid,
+  summarizePnlDistribution,
+} from "./monteCarlo";
+import {
+  MAX_HEDGE_DAYS,
+  MAX_HEDGE_PATHS,
+  generatePricePaths,
+  hedgeQuantities,
+  resamplePath,
+  summarizePnl,
+} from "./hedging";
+
+export type CalculatorChannel =
+  | "greeks"
+  | "impliedVolatility"
+  | "chart"
+  | "monteCarlo"
+  | "animation"
+  | "hedge"
+  | "hedgeSimulation";
+
+// Requests on the same channel supersede each other, so only the latest one
+// per channel is worth computing.
+export const getCalculatorChannel = (
+  task: CalculatorMessage["task"]
+): CalculatorChannel => {
+  if (task === "calculateGreeks") return "greeks";
+  if (task === "impliedVolatility") return "impliedVolatility";
+  if (task === "simulatePnl") return "monteCarlo";
+  if (task === "generateFrames") return "animation";
+  if (task === "proposeHedge") return "hedge";
+  if (task === "simulateHedge") return "hedgeSimulation";
+  return "chart";
+};
+
+// The engines report time-decay Greeks per 365-day calendar day
+const TIME_DECAY_GREEKS: Array<keyof Greeks> = ["theta", "charm", "color"];
+
+const toDayBasis = (greeks: Greeks, daysPerYear: number): Greeks => {
+  if (daysPerYear === 365) return greeks;
+  const scale = 365 / daysPerYear;
+  return {
+    ...greeks,
+    theta: greeks.theta * scale,
+    charm: greeks.charm * scale,
+    color: greeks.color * scale,
+  };
+};
+
+// Replaces each point's flat vol with the surface vol at its strike and
+// expiry. The surface is lognormal, so Bachelier points keep their normal vol.
+const applyVolSurface = (points: OptionParams[], surface?: VolSurface) => {
+  if (!surface?.enabled) return;
+  points.forEach((point) => {
+    if (point.model === "bachelier") return;
+    point.sigma = surfaceVolatility(
+      surface,
+      point.S,
+      point.K,
+      point.T,
+      point.r,
+      point.q,
+      point.sigma
+    );
+  });
+};
+
+// On a surface each leg reads its vol at its own (possibly shocked) spot and
+// expiry; the shift is applied on top either way
+const legVolatility = (
+  sigma: number,
+  point: OptionParams,
+  shift: number,
+  surface?: VolSurface
+) => {
+  const base =
+    surface?.enabled && point.model !== "bachelier"
+      ? surfaceVolatility(
+          surface,
+          point.S,
+          point.K,
+          point.T,
+          point.r,
+          point.q,
+          sigma
+        )
+      : sigma;
+  return Math.max(base + shift, 0.001);
+};
+
+const AGGREGATED_GREEKS = [
+  "delta",
+  "gamma",
+  "theta",
+  "vega",
+  "rho",
+  "vanna",
+  "volga",
+  "charm",
+  "speed",
+  "color",
+  "zomma",
+] as const;
+
+// Position-weighted Greeks, value and P&L of the legs priced at
+// greeks[offset..offset + options.length)
+const aggregateLegs = (
+  options: GreeksParams[],
+  greeks: Greeks[],
+  offset: number
+): PortfolioTotals => {
+  const totals = Object.fromEntries(
+    [...AGGREGATED_GREEKS, "value", "pnl"].map((key) => [key, 0])
+  ) as PortfolioTotals;
+
+  options.forEach((option, legIndex) => {
+    const result = greeks[offset + legIndex];
+    const weight =
+      (option.position === "long" ? 1 : -1) * (option.quantity || 1);
+
+    AGGREGATED_GREEKS.forEach((key) => {
+      totals[key] += result[key] * weight;
+    });
+    totals.value += result.price * weight;
+    totals.pnl += (result.price - (option.entryPrice ?? 0)) * weight;
+  });
+
+  return totals;
+};
+
+// Long jobs hand the thread back to the worker this often, so a newer request
+// on the same channel can cancel them part-way
+const SLICE_MS = 50;
+
+class CancelledError extends Error {}
+
+// Paths priced between checkpoints in a hedge simulation
+const HEDGE_PATH_CHUNK = 10;
+
+const yieldToMessages = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export const createCalculator = (wasmModule: WasmModule | null) => {
+  let isCancelled = () => false;
+  let sliceStart = 0;
+
+  const checkpoint = async () => {
+    if (performance.now() - sliceStart < SLICE_MS) return;
+    await yieldToMessages();
+    if (isCancelled()) throw new CancelledError();
+    sliceStart = performance.now();
+  };
+
+  const calculateGreeks = (
+    type: "call" | "put",
+    exercise: ExerciseStyle,
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number,
+    sigma: number,
+    model: PricingModel = "blackScholes"
+  ) => {
+    // Only Black-Scholes has an American tree
+    if (exercise === "american" && model === "blackScholes") {
+      if (!wasmModule) {
+        return jsCalculateAmericanGreeks(type, S, K, T, r, q, sigma);
+      }
+      return wasmModule.calculateAmericanGreeks(type, S, K, T, r, q, sigma);
+    }
+    if (!wasmModule) {
+      return jsCalculateGreeks(type, S, K, T, r, q, sigma, model);
+    }
+    return wasmModule.calculateGreeks(type, S, K, T, r, q, sigma, model);
+  };
+
+  const calculateImpliedVolatility = (
+    type: "call" | "put",
+    price: number,
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number,
+    model: PricingModel = "blackScholes",
+    exercise: ExerciseStyle = "european"
+  ): ImpliedVolatilityResult => {
+    // American prices are inverted on the same tree that prices them
+    if (exercise === "american" && model === "blackScholes") {
+      return jsAmericanImpliedVolatility(type, price, S, K, T, r, q);
+    }
+    // The solver inverts Black-Scholes, which Black-76 is with carry equal to
+    // the rate; normal vols are not supported
+    if (model === "bachelier") return { sigma: NaN, status: "invalidInput" };
+    const carry = model === "black76" ? r : q;
+    if (!wasmModule) {
+      return jsImpliedVolatility(type, price, S, K, T, r, carry);
+    }
+    return wasmModule.impliedVolatility(type, price, S, K, T, r, carry);
+  };
+
+  const calculateVanillaBatch = (points: OptionParams[]) =>
+    wasmModule
+      ? wasmModule.calculateGreeksBatch(points)
+      : jsCalculateGreeksBatch(points);
+
+  // Exotic payoffs are priced in JS, one point at a time between
+  // checkpoints; the rest still go through one batch
+  const calculateGreeksBatch = async (
+    points: OptionParams[],
+    daysPerYear = 365
+  ) => {
+    let greeks: Greeks[];
+    if (!points.some(hasExoticPayoff)) {
+      greeks = calculateVanillaBatch(points);
+    } else {
+      const vanilla = calculateVanillaBatch(
+        points.filter((point) => !hasExoticPayoff(point))
+      );
+      let vanillaIndex = 0;
+      greeks = [];
+      for (const point of points) {
+        if (hasExoticPayoff(point)) {
+          await checkpoint();
+          greeks.push(jsCalculateExoticGreeks(point));
+        } else {
+          greeks.push(vanilla[vanillaIndex++]);
+        }
+      }
+    }
+    return daysPerYear === 365
+      ? greeks
+      : greeks.map((result) => toDayBasis(result, daysPerYear));
+  };
+
+  // Sweeps plot a single Greek, so vanilla points skip the Greeks objects
+  const calculateGreekBatch = async (
+    points: OptionParams[],
+    greek: keyof Greeks,
+    daysPerYear = 365
+  ): Promise<Float64Array> => {
+    if (points.some(hasExoticPayoff)) {
+      return Float64Array.from(
+        await calculateGreeksBatch(points, daysPerYear),
+        (result) => result[greek]
+      );
+    }
+    const values = wasmModule
+      ? wasmModule.calculateGreekBatch(points, greek)
+      : jsCalculateGreekBatch(points, greek);
+    if (daysPerYear === 365 || !TIME_DECAY_GREEKS.includes(greek)) {
+      return values;
+    }
+    return values.map((value) => (value * 365) / daysPerYear);
+  };
+
+  const simulateTerminalPrices = (
+    S: number,
+    r: number,
+    q: number,
+    sigma: number,
+    T: number,
+    count: number,
+    seed: number
+  ) => {
+    if (!wasmModule) {
+      return jsSimulateTerminalPrices(S, r, q, sigma, T, count, seed);
+    }
+    return wasmModule.simulateTerminalPrices(S, r, q, sigma, T, count, seed);
+  };
+
+  const runTask = async (e: CalculatorMessage): Promise<CalculatorResponse> => {
+    const { id, task, params } = e;
+    const { daysPerYear = 365 } = params as DayBasis;
+
+    if (task === "calculateGreeks") {
+      const option = params as GreeksParams;
+      const { type, exercise, S, K, T, r, q, sigma, model } = option;
+      const result = toDayBasis(
+        hasExoticPayoff(option)
+          ? jsCalculateExoticGreeks(option)
+          : calculateGreeks(type, exercise, S, K, T, r, q, sigma, model),
+        daysPerYear
+      );
+      return { id, task: "greeksResult", result };
+    } else if (task === "generateData") {
+      const {
+        parameter,
+        range,
+        comparisons = [],
+        volSurface,
+      } = params as DataGenerationParams;
+      const series = [params as DataGenerationParams, ...comparisons];
+      const xValues = sweepValues(range);
+
+      // Every series shares the x values but may plot a different Greek
+      const values = await Promise.all(
+        series.map((config) => {
+          const base: OptionParams = {
+            type: config.optionType,
+            exercise: config.exerciseStyle,
+            exotic: config.exotic,
+            model: config.model,
+            S: config.spotPrice,
+            K: config.strikePrice,
+            T: config.timeToExpiry,
+            r: config.interestRate,
+            q: config.dividendYield,
+            sigma: config.volatility,
+          };
+          const points = xValues.map((x): OptionParams => {
+            if (parameter === "price") return { ...base, S: x };
+            if (parameter === "time") return { ...base, T: x };
+            if (parameter === "volatility") return { ...base, sigma: x };
+            if (parameter === "interest") return { ...base, r: x };
+            if (parameter === "dividend") return { ...base, q: x };
+            return { ...base, S: config.strikePrice * x };
+          });
+
+          if (parameter !== "volatility") applyVolSurface(points, volSurface);
+          return calculateGreekBatch(points, config.greek, daysPerYear);
+        })
+      );
+
+      const data = xValues.map((x, i) => ({
+        parameter: x,
+        value: values[0][i],
+        ...(comparisons.length > 0 && {
+          series: comparisons.map((_, j) => values[j + 1][i]),
+        }),
+      }));
+
+      return { id, task: "dataResult", data };
+    } else if (task === "generate3DData") {
+      const {
+        optionType,
+        exerciseStyle,
+        greek,
+        xParam,
+        yParam,
+        xRange,
+        yRange,
+        exotic,
+        model,
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        interestRate,
+        dividendYield,
+        volatility,
+        volSurface,
+      } = params as ThreeDDataParams;
+      const coordinates: Array<{ x: number; y: number }> = [];
+      const points: OptionParams[] = [];
+
+      const xValues = sweepValues(xRange);
+      const yValues = sweepValues(yRange);
+
+      for (const xValue of xValues) {
+        for (const yValue of yValues) {
+          const params: OptionParams = {
+            type: optionType,
+            exercise: exerciseStyle,
+            exotic,
+            model,
+            S: spotPrice,
+            K: strikePrice,
+            T: timeToExpiry,
+            r: interestRate,
+            q: dividendYield,
+            sigma: volatility,
+          };
+
+          if (xParam === "price") params.S = xValue;
+          if (xParam === "strike") params.K = xValue;
+          if (xParam === "time") params.T = xValue;
+          if (xParam === "volatility") params.sigma = xValue;
+          if (xParam === "interest") params.r = xValue;
+          if (xParam === "dividend") params.q = xValue;
+
+          if (yParam === "price") params.S = yValue;
+          if (yParam === "strike") params.K = yValue;
+          if (yParam === "time") params.T = yValue;
+          if (yParam === "volatility") params.sigma = yValue;
+          if (yParam === "interest") params.r = yValue;
+          if (yParam === "dividend") params.q = yValue;
+
+          coordinates.push({ x: xValue, y: yValue });
+          points.push(params);
+        }
+      }
+
+      if (xParam !== "volatility" && yParam !== "volatility") {
+        applyVolSurface(points, volSurface);
+      }
+
+      const values = await calculateGreekBatch(points, greek, daysPerYear);
+      const data = coordinates.map((coordinate, i) => ({
+        ...coordinate,
+        z: values[i],
+      }));
+
+      return { id, task: "3dDataResult", data };
+    } else if (task === "calculatePortfolio") {
+      const { options, xAxis, range, volShift, volSurface } =
+        params as PortfolioParams;
+      const xValues = sweepValues(range);
+
+      const points: OptionParams[] = [];
+      xValues.forEach((xValue) => {
+        options.forEach((option) => {
+          const params = { ...option };
+
+          // Time and volatility sweeps move every leg together from its own
+          // starting point, so calendars and skewed legs stay distinct
+          if (xAxis === "price") params.S = xValue;
+          if (xAxis === "elapsed") params.T = Math.max(option.T - xValue, 0);
+          if (xAxis === "interest") params.r = xValue;
+          if (xAxis === "dividend") params.q = xValue;
+
+          const shift = (volShift ?? 0) + (xAxis === "volShift" ? xValue : 0);
+          params.sigma = legVolatility(option.sigma, params, shift, volSurface);
+
+          points.push(params);
+        });
+      });
+
+      const greeks = await calculateGreeksBatch(points, daysPerYear);
+
+      // The expiry line is taken at the first expiry; legs that run past it
+      // keep their model value there instead of settling at intrinsic
+      const firstExpiry = Math.min(...options.map(({ T }) => T));
+      const expiringLegs = options.filter(({ T }) => T <= firstExpiry);
+      const laterLegs = options.filter(({ T }) => T > firstExpiry);
+      const expirySpots = xValues.map((xValue) =>
+        xAxis === "price" ? xValue : (options[0]?.S ?? 0)
+      );
+      const laterPoints: OptionParams[] = [];
+      xValues.forEach((xValue, i) => {
+        laterLegs.forEach((option) => {
+          const params = {
+            ...option,
+            S: expirySpots[i],
+            T: option.T - firstExpiry,
+          };
+          if (xAxis === "interest") params.r = xValue;
+          if (xAxis === "dividend") params.q = xValue;
+
+          const shift = (volShift ?? 0) + (xAxis === "volShift" ? xValue : 0);
+          params.sigma = legVolatility(option.sigma, params, shift, volSurface);
+
+          laterPoints.push(params);
+        });
+      });
+      const laterGreeks =
+        laterPoints.length > 0 ? await calculateGreeksBatch(laterPoints) : [];
+
+      const results = xValues.map((xValue, i) => ({
+        parameter: xValue,
+        ...aggregateLegs(options, greeks, i * options.length),
+        expiryPnl:
+          jsExpiryPnl(expiringLegs, expirySpots[i]) +
+          (laterLegs.length > 0
+            ? aggregateLegs(laterLegs, laterGreeks, i * laterLegs.length).pnl
+            : 0),
+      }));
+
+      return { id, task: "portfolioResult", results };
+    } else if (task === "calculateScenarios") {
+      const { options, shocks, volSurface } = params as ScenarioParams;
+      const points: OptionParams[] = [];
+
+      shocks.forEach(({ spotShock, volShock, daysForward }) => {
+        options.forEach((option) => {
+          const point = {
+            ...option,
+            S: option.S * (1 + spotShock),
+            T: Math.max(option.T - daysForward / daysPerYear, 0),
+          };
+          point.sigma = legVolatility(
+            option.sigma,
+            point,
+            volShock,
+            volSurface
+          );
+          points.push(point);
+        });
+      });
+
+      const greeks = await calculateGreeksBatch(points, daysPerYear);
+      const results = shocks.map((shock, i) => ({
+        ...shock,
+        ...aggregateLegs(options, greeks, i * options.length),
+      }));
+
+      return { id, task: "scenarioResult", results };
+    } else if (task === "simulatePnl") {
+      const {
+        options,
+        spotPrice,
+        interestRate,
+        dividendYield,
+        volatility,
+        horizonDays,
+        paths,
+        seed,
+        confidence,
+        volSurface,
+      } = params as MonteCarloParams;
+      const horizon = horizonDays / daysPerYear;
+      const prices = simulateTerminalPrices(
+        spotPrice,
+        interestRate,
+        dividendYield,
+        volatility,
+        horizon,
+        paths,
+        seed
+      );
+
+      let minPrice = Infinity;
+      let maxPrice = -Infinity;
+      prices.forEach((price) => {
+        minPrice = Math.min(minPrice, price);
+        maxPrice = Math.max(maxPrice, price);
+      });
+
+      // One batch per grid spot, so American legs (a tree per point) still
+      // reach a checkpoint between spots
+      const gridPnl: number[] = [];
+      for (let i = 0; i <= MONTE_CARLO_GRID_STEPS; i++) {
+        await checkpoint();
+        const S =
+          minPrice + ((maxPrice - minPrice) * i) / MONTE_CARLO_GRID_STEPS;
+        const points = options.map((option) => {
+          const point = { ...option, S, T: Math.max(option.T - horizon, 0) };
+          point.sigma = legVolatility(option.sigma, point, 0, volSurface);
+          return point;
+        });
+        const greeks = await calculateGreeksBatch(points);
+        gridPnl.push(aggregateLegs(options, greeks, 0).pnl);
+      }
+
+      const pnl = prices.map((price) =>
+        interpolateGrid(gridPnl, minPrice, maxPrice, price)
+      );
+      const monteCarlo = summarizePnlDistribution(pnl, confidence);
+
+      return { id, task: "monteCarloResult", monteCarlo };
+    } else if (task === "generateVolSurface") {
+      const {
+        volSurface,
+        strikeRange,
+        timeRange,
+        spotPrice,
+        interestRate,
+        dividendYield,
+        volatility,
+      } = params as VolSurfaceParams;
+      const times = sweepValues(timeRange);
+      const data = [];
+
+      for (const strike of sweepValues(strikeRange)) {
+        for (const time of times) {
+          data.push({
+            x: strike,
+            y: time,
+            z: surfaceVolatility(
+              volSurface,
+              spotPrice,
+              strike,
+              time,
+              interestRate,
+              dividendYield,
+              volatility
+            ),
+          });
+        }
+      }
+
+      return { id, task: "3dDataResult", data };
+    } else if (task === "generateBoundary") {
+      const {
+        optionType,
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        interestRate,
+        dividendYield,
+        volatility,
+      } = params as BoundaryParams;
+      const data = jsEarlyExerciseBoundary(
+        optionType,
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        interestRate,
+        dividendYield,
+        volatility
+      );
+
+      return { id, task: "boundaryResult", data };
+    } else if (task === "impliedVolatility") {
+      const { type, price, S, K, T, r, q, model, exercise } =
+        params as ImpliedVolatilityParams;
+      const impliedVolatility = calculateImpliedVolatility(
+        type,
+        price,
+        S,
+        K,
+        T,
+        r,
+        q,
+        model,
+        exercise
+      );
+      return { id, task: "impliedVolatilityResult", impliedVolatility };
+    } else if (task === "generateFrames") {
+      const {
+        frameTask,
+        params: frameParams,
+        frameDays,
+      } = params as AnimationParams;
+
+      const frames: AnimationFrame[] = [];
+      for (const daysElapsed of frameDays) {
+        const elapsed = daysElapsed / daysPerYear;
+        const shorten = (T: number) => Math.max(T - elapsed, 0);
+        let shifted: CalculatorMessage["params"];
+
+        if (frameTask === "calculatePortfolio") {
+          const portfolio = frameParams as PortfolioParams;
+          shifted = {
+            ...portfolio,
+            options: portfolio.options.map((option) => ({
+              ...option,
+              T: shorten(option.T),
+            })),
+          };
+        } else if (frameTask === "generateData") {
+          const data = frameParams as DataGenerationParams;
+          shifted = {
+            ...data,
+            timeToExpiry: shorten(data.timeToExpiry),
+            comparisons: data.comparisons?.map((series) => ({
+              ...series,
+              timeToExpiry: shorten(series.timeToExpiry),
+            })),
+          };
+        } else {
+          const surface = frameParams as ThreeDDataParams;
+          shifted = { ...surface, timeToExpiry: shorten(surface.timeToExpiry) };
+        }
+
+        await checkpoint();
+        const response = await runTask({
+          id,
+          task: frameTask,
+          params: shifted,
+        });
+        frames.push({
+          daysElapsed,
+          data: response.data ?? response.results ?? [],
+        });
+      }
+
+      return { id, task: "framesResult", animation: { frameTask, frames } };
+    } else if (task === "proposeHedge") {
+      const { options, target, instrument, volSurface } = params as HedgeParams;
+      const points = [...options, instrument].map((option) => ({
+        ...option,
+        sigma: legVolatility(option.sigma, option, 0, volSurface),
+      }));
+      const greeks = await calculateGreeksBatch(points, daysPerYear);
+      const portfolio = aggregateLegs(options, greeks, 0);
+      const instrumentGreeks = greeks[options.length];
+      const { optionQuantity, shares } = hedgeQuantities(
+        portfolio,
+        instrumentGreeks,
+        target
+      );
+
+      const hedge: HedgeProposal = {
+        portfolio: {
+          delta: portfolio.delta,
+          gamma: portfolio.gamma,
+          vega: portfolio.vega,
+          theta: portfolio.theta,
+        },
+        instrument: instrumentGreeks,
+        optionQuantity,
+        shares,
+        hedged: {
+          delta:
+            portfolio.delta + optionQuantity * instrumentGreeks.delta + shares,
+          gamma: portfolio.gamma + optionQuantity * instrumentGreeks.gamma,
+          vega: portfolio.vega + optionQuantity * instrumentGreeks.vega,
+          theta: portfolio.theta + optionQuantity * instrumentGreeks.theta,
+        },
+      };
+
+      return { id, task: "hedgeResult", hedge };
+    } else if (task === "simulateHedge") {
+      const {
+        options,
+        target,
+        instrument,
+        volSurface,
+        volatility,
+        horizonDays,
+        rebalanceDays,
+        paths,
+        seed,
+        customPath,
+      } = params as HedgeSimulationParams;
+      const { S, r, q } = instrument;
+      const steps = Math.max(
+        Math.min(Math.round(horizonDays), MAX_HEDGE_DAYS),
+        1
+      );
+      const rebalanceEvery = Math.max(Math.round(rebalanceDays), 1);
+      const dt = 1 / daysPerYear;
+      const spots = customPath
+        ? [resamplePath(customPath, steps).map((multiple) => multiple * S)]
+        : generatePricePaths(
+            S,
+            r,
+            q,
+            volatility,
+            dt,
+            steps,
+            Math.max(Math.min(Math.round(paths), MAX_HEDGE_PATHS), 1),
+            seed
+          );
+      const legs = [...options, instrument];
+
+      // Self-financing book per path: hedge trades are paid from cash, which
+      // accrues at r, while held shares collect the dividend yield
+      const books = spots.map(() => ({
+        initialValue: 0,
+        shares: 0,
+        optionQuantity: 0,
+        cash: 0,
+        hedgedPnl: 0,
+        unhedgedPnl: 0,
+      }));
+      const path = [];
+
+      for (let t = 0; t <= steps; t++) {
+        const elapsed = t * dt;
+        // Paths are priced in chunks so American legs, a tree per point,
+        // still reach a checkpoint every few paths
+        const greeks: Greeks[] = [];
+        for (let p = 0; p < spots.length; p += HEDGE_PATH_CHUNK) {
+          await checkpoint();
+          const points = spots
+            .slice(p, p + HEDGE_PATH_CHUNK)
+            .flatMap((spotPath) =>
+              legs.map((option) => {
+                const point = {
+                  ...option,
+                  S: spotPath[t],
+                  T: Math.max(option.T - elapsed, 0),
+                };
+                point.sigma = legVolatility(option.sigma, point, 0, volSurface);
+                return point;
+              })
+            );
+          greeks.push(...(await calculateGreeksBatch(points)));
+        }
+
+        books.forEach((book, p) => {
+          const spot = spots[p][t];
+          const totals = aggregateLegs(options, greeks, p * legs.length);
+          const hedgeOption = greeks[p * legs.length + options.length];
+
+          if (t === 0) {
+            book.initialValue = totals.value;
+          } else {
+            book.cash =
+              book.cash * Math.exp(r * dt) + book.shares * spot * q * dt;
+          }
+
+          if (t < steps && t % rebalanceEvery === 0) {
+            const next = hedgeQuantities(totals, hedgeOption, target);
+            book.cash -=
+              (next.shares - book.shares) * spot +
+              (next.optionQuantity - book.optionQuantity) * hedgeOption.price;
+            book.shares = next.shares;
+            book.optionQuantity = next.optionQuantity;
+          }
+
+          book.unhedgedPnl = totals.value - book.initialValue;
+          book.hedgedPnl =
+            book.unhedgedPnl +
+            book.shares * spot +
+            book.optionQuantity * hedgeOption.price +
+            book.cash;
+        });
+
+        path.push({
+          day: t,
+          spot: spots[0][t],
+          hedgedPnl: books[0].hedgedPnl,
+          unhedgedPnl: books[0].unhedgedPnl,
+        });
+      }
+
+      return {
+        id,
+        task: "hedgeSimulationResult",
+        hedgeSimulation: {
+          path,
+          hedged: summarizePnl(books.map((book) => book.hedgedPnl)),
+          unhedged: summarizePnl(books.map((book) => book.unhedgedPnl)),
+          paths: spots.length,
+        },
+      };
+    }
+
+    throw new Error(`Unknown calculator task: ${task}`);
+  };
+
+  // Resolves to a "cancelled" response once isSuperseded reports true at a
+  // checkpoint
+  const processMessage = async (
+    message: CalculatorMessage,
+    isSuperseded: () => boolean = () => false
+  ): Promise<CalculatorResponse> => {
+    isCancelled = isSuperseded;
+    sliceStart = performance.now();
+    try {
+      return await runTask(message);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        return { id: message.id, task: "cancelled" };
+      }
+      throw error;
+    }
+  };
+
+  return {
+    calculateGreeks,
+    calculateGreeksBatch,
+    calculateImpliedVolatility,
+    processMessage,
+  };
+};
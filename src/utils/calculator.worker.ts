@@ -0,0 +1,63 @@
+// calculator.worker.ts
+import { initWasm } from "./wasm";
+import {
+  CalculatorChannel,
+  createCalculator,
+  getCalculatorChannel,
+} from "./calculator";
+import { CalculatorMessage, CalculatorResponse } from "./types";
+
+// The JS engine answers until the WASM module has loaded
+let calculator = createCalculator(null);
+initWasm().then((module) => {
+  calculator = createCalculator(module);
+});
+
+const pending = new Map<CalculatorChannel, CalculatorMessage>();
+let isScheduled = false;
+// The job being computed, flagged when a newer request on its channel lands
+let running: { channel: CalculatorChannel; isSuperseded: boolean } | null =
+  null;
+
+const respond = (response: CalculatorResponse) => self.postMessage(response);
+
+// Work is taken one request at a time so that messages arriving while a grid
+// is being filled can replace queued requests that are already stale. Long
+// jobs yield at checkpoints, where a superseded one stops early.
+const processNext = async () => {
+  isScheduled = false;
+  const next = pending.entries().next();
+  if (next.done) return;
+
+  const [channel, message] = next.value;
+  pending.delete(channel);
+  const job = { channel, isSuperseded: false };
+  running = job;
+  try {
+    respond(await calculator.processMessage(message, () => job.isSuperseded));
+  } catch (error) {
+    // A failed task still answers its id, so the client stops waiting on it
+    respond({ id: message.id, task: "error", error: String(error) });
+  } finally {
+    running = null;
+    if (pending.size > 0) schedule();
+  }
+};
+
+const schedule = () => {
+  if (isScheduled || running) return;
+  isScheduled = true;
+  setTimeout(processNext, 0);
+};
+
+self.onmessage = (e: MessageEvent<CalculatorMessage>) => {
+  const message = e.data;
+  const channel = getCalculatorChannel(message.task);
+  const superseded = pending.get(channel);
+  if (superseded) {
+    respond({ id: superseded.id, task: "cancelled" });
+  }
+  if (running?.channel === channel) running.isSuperseded = true;
+  pending.set(channel, message);
+  schedule();
+};
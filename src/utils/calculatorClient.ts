@@ -0,0 +1,56 @@
+// calculatorClient.ts
+import { CalculatorChannel, getCalculatorChannel } from "./calculator";
+import { CalculatorMessage, CalculatorResponse } from "./types";
+
+export interface CalculatorClient {
+  post: (
+    task: CalculatorMessage["task"],
+    params: CalculatorMessage["params"]
+  ) => void;
+  terminate: () => void;
+}
+
+export const createCalculatorClient = (
+  onResult: (response: CalculatorResponse) => void,
+  onBusyChange: (isBusy: boolean) => void
+): CalculatorClient => {
+  const worker = new Worker(
+    new URL("./calculator.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+  const inFlight = new Map<number, CalculatorChannel>();
+  const latest = new Map<CalculatorChannel, number>();
+  let nextId = 0;
+
+  worker.onmessage = (e: MessageEvent<CalculatorResponse>) => {
+    const response = e.data;
+    const channel = inFlight.get(response.id);
+    inFlight.delete(response.id);
+    onBusyChange(inFlight.size > 0);
+    if (response.task === "error") {
+      console.error(`Calculator task failed: ${response.error}`);
+      return;
+    }
+
+    // Drop results for requests that a newer one on the same channel replaced
+    if (
+      response.task !== "cancelled" &&
+      channel &&
+      latest.get(channel) === response.id
+    ) {
+      onResult(response);
+    }
+  };
+
+  return {
+    post: (task, params) => {
+      const id = ++nextId;
+      const channel = getCalculatorChannel(task);
+      inFlight.set(id, channel);
+      latest.set(channel, id);
+      onBusyChange(true);
+      worker.postMessage({ id, task, params });
+    },
+    terminate: () => worker.terminate(),
+  };
+};
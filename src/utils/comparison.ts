@@ -0,0 +1,96 @@
+// comparison.ts
+import { BARRIER_LABELS, PAYOFF_LABELS } from "./exotics";
+import { MODEL_LABELS } from "./pricingModels";
+import { ChartDataPoint, ComparisonSeries, ExoticTerms } from "./types";
+
+export const MAX_COMPARISON_SERIES = 8;
+
+const formatPayoff = (exotic?: ExoticTerms) => {
+  if (!exotic) return PAYOFF_LABELS.vanilla;
+  if (exotic.payoff === "barrier") {
+    return `${BARRIER_LABELS[exotic.barrierType]} @ ${exotic.barrier}`;
+  }
+  if (exotic.payoff === "asian") return `Asian ×${exotic.fixings}`;
+  if (exotic.payoff === "cashDigital") {
+    return `${PAYOFF_LABELS.cashDigital} ${exotic.cashPayout}`;
+  }
+  return PAYOFF_LABELS[exotic.payoff];
+};
+
+const SERIES_FIELDS: Array<{
+  key: Exclude<keyof ComparisonSeries, "id">;
+  format: (series: ComparisonSeries) => string;
+}> = [
+  {
+    key: "greek",
+    format: ({ greek }) => greek.charAt(0).toUpperCase() + greek.slice(1),
+  },
+  {
+    key: "optionType",
+    format: ({ optionType }) => (optionType === "call" ? "Call" : "Put"),
+  },
+  {
+    key: "exerciseStyle",
+    format: ({ exerciseStyle }) =>
+      exerciseStyle === "american" ? "American" : "European",
+  },
+  {
+    key: "exotic",
+    format: ({ exotic }) => formatPayoff(exotic),
+  },
+  {
+    key: "model",
+    format: ({ model }) => MODEL_LABELS[model ?? "blackScholes"],
+  },
+  { key: "spotPrice", format: ({ spotPrice }) => `S=${spotPrice}` },
+  { key: "strikePrice", format: ({ strikePrice }) => `K=${strikePrice}` },
+  { key: "expiryDate", format: ({ expiryDate }) => `exp ${expiryDate}` },
+  {
+    key: "volatility",
+    format: ({ volatility, model }) =>
+      model === "bachelier"
+        ? `σN=${+volatility.toFixed(2)}`
+        : `σ=${+(volatility * 100).toFixed(2)}%`,
+  },
+  {
+    key: "interestRate",
+    format: ({ interestRate }) => `r=${+(interestRate * 100).toFixed(2)}%`,
+  },
+  {
+    key: "dividendYield",
+    format: ({ dividendYield }) => `q=${+(dividendYield * 100).toFixed(2)}%`,
+  },
+];
+
+// Names each series by the parameters that differ across the set, so
+// "exp 2026-12-18" vs "exp 2027-03-19" rather than the full list of inputs
+export const labelComparisonSeries = (series: ComparisonSeries[]): string[] => {
+  const differing = SERIES_FIELDS.filter(({ format }) =>
+    series.some((config) => format(config) !== format(series[0]))
+  );
+  // The Greek always names a series when nothing else tells them apart
+  const fields = differing.length > 0 ? differing : SERIES_FIELDS.slice(0, 1);
+
+  return series.map((config) =>
+    fields.map(({ format }) => format(config)).join(", ")
+  );
+};
+
+// Scales every series to a peak magnitude of 1 so Greeks of very different
+// size can share one axis
+export const normalizeChartData = (
+  data: ChartDataPoint[]
+): ChartDataPoint[] => {
+  const peak = (values: number[]) =>
+    Math.max(...values.map((value) => Math.abs(value))) || 1;
+  const valuePeak = peak(data.map((point) => point.value));
+  const seriesPeaks = (data[0]?.series ?? []).map((_, j) =>
+    peak(data.map((point) => point.series?.[j] ?? 0))
+  );
+
+  return data.map((point) => ({
+    ...point,
+    value: point.value / valuePeak,
+    series: point.series?.map((value, j) => value / seriesPeaks[j]),
+  }));
+};
@@ -0,0 +1,36 @@
+// dayCount.test.ts
+import { describe, expect, it } from "vitest";
+import { daysToExpiry, usMarketHolidays } from "./dayCount";
+
+describe("US market holidays", () => {
+  it("matches the published NYSE calendar", () => {
+    expect(usMarketHolidays(2027)).toEqual([
+      "2027-01-01",
+      "2027-01-18",
+      "2027-02-15",
+      "2027-03-26",
+      "2027-05-31",
+      "2027-06-18",
+      "2027-07-05",
+      "2027-09-06",
+      "2027-11-25",
+      "2027-12-24",
+    ]);
+  });
+
+  it("skips a Saturday New Year's Day", () => {
+    expect(usMarketHolidays(2028)[0]).toBe("2028-01-17");
+  });
+
+  it("counts trading days past the end of any fixed table", () => {
+    const settings = { convention: "BUS/252" as const, holidays: [] };
+    // 2030-12-24 to 2031-01-02: Christmas and New Year's Day are closed
+    expect(daysToExpiry("2030-12-24", "2031-01-02", settings)).toBe(5);
+    expect(
+      daysToExpiry("2030-12-24", "2031-01-02", {
+        ...settings,
+        marketHolidays: false,
+      })
+    ).toBe(7);
+  });
+});
@@ -0,0 +1,187 @@
+// dayCount.ts
+import { DayCountConvention, DayCountSettings } from "./types";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DAY_COUNT_CONVENTIONS: DayCountConvention[] = [
+  "ACT/365",
+  "ACT/360",
+  "BUS/252",
+];
+
+// Length of a year in the convention's own days
+export const DAYS_PER_YEAR: Record<DayCountConvention, number> = {
+  "ACT/365": 365,
+  "ACT/360": 360,
+  "BUS/252": 252,
+};
+
+export const DEFAULT_DAY_COUNT: DayCountSettings = {
+  convention: "ACT/365",
+  holidays: [],
+  marketHolidays: true,
+};
+
+// Dates are handled as UTC midnights so daylight saving never shifts a day
+export const parseIsoDate = (text: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return null;
+  const date = new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  );
+  return date.toISOString().startsWith(text) ? date : null;
+};
+
+export const formatIsoDate = (date: Date): string =>
+  date.toISOString().slice(0, 10);
+
+export const todayIsoDate = (): string => {
+  const now = new Date();
+  return formatIsoDate(
+    new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+  );
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * MS_PER_DAY);
+
+const utcDate = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day));
+
+// nth given weekday of a month, counting from the end when n is negative
+const nthWeekday = (
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+) => {
+  if (n < 0) {
+    const last = utcDate(year, month + 1, 0);
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7) + (n + 1) * 7);
+  }
+  const first = utcDate(year, month, 1);
+  return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+};
+
+// Gregorian Easter (Meeus/Jones/Butcher)
+const easterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  return utcDate(year, month - 1, ((h + l - 7 * m + 114) % 31) + 1);
+};
+
+// Weekend holidays move to the Friday before or the Monday after
+const observed = (date: Date) => {
+  const weekday = date.getUTCDay();
+  if (weekday === 6) return addDays(date, -1);
+  return weekday === 0 ? addDays(date, 1) : date;
+};
+
+// NYSE full-day closures by rule. A Saturday New Year's Day is not made up,
+// since the Friday before closes the previous year.
+export const usMarketHolidays = (year: number): string[] => {
+  const newYear = utcDate(year, 0, 1);
+  const dates = [
+    newYear.getUTCDay() === 6 ? null : observed(newYear),
+    nthWeekday(year, 0, 1, 3),
+    nthWeekday(year, 1, 1, 3),
+    addDays(easterSunday(year), -2),
+    nthWeekday(year, 4, 1, -1),
+    year >= 2022 ? observed(utcDate(year, 5, 19)) : null,
+    observed(utcDate(year, 6, 4)),
+    nthWeekday(year, 8, 1, 1),
+    nthWeekday(year, 10, 4, 4),
+    observed(utcDate(year, 11, 25)),
+  ];
+  return dates.flatMap((date) => (date ? [formatIsoDate(date)] : []));
+};
+
+// Closure check over the settings' own dates plus, unless turned off, the
+// rule calendar for each year a count passes through
+const closedDays = ({ holidays, marketHolidays = true }: DayCountSettings) => {
+  const closed = new Set(holidays);
+  const ruleYears = new Set<number>();
+  return (date: Date) => {
+    const year = date.getUTCFullYear();
+    if (marketHolidays && !ruleYears.has(year)) {
+      ruleYears.add(year);
+      usMarketHolidays(year).forEach((holiday) => closed.add(holiday));
+    }
+    return closed.has(formatIsoDate(date));
+  };
+};
+
+const isBusinessDay = (date: Date, isClosed: (date: Date) => boolean) => {
+  const weekday = date.getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !isClosed(date);
+};
+
+// Business days in (start, end], so an expiry today counts zero
+export const businessDaysBetween = (
+  start: Date,
+  end: Date,
+  settings: DayCountSettings
+): number => {
+  const closed = closedDays(settings);
+  let count = 0;
+  for (let day = addDays(start, 1); day <= end; day = addDays(day, 1)) {
+    if (isBusinessDay(day, closed)) count++;
+  }
+  return count;
+};
+
+// Days from valuation to expiry in the convention's own units, zero once
+// expired or when either date is invalid
+export const daysToExpiry = (
+  valuationDate: string,
+  expiryDate: string,
+  settings: DayCountSettings
+): number => {
+  const start = parseIsoDate(valuationDate);
+  const end = parseIsoDate(expiryDate);
+  if (!start || !end || end <= start) return 0;
+  if (settings.convention === "BUS/252") {
+    return businessDaysBetween(start, end, settings);
+  }
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+};
+
+export const yearFraction = (
+  valuationDate: string,
+  expiryDate: string,
+  settings: DayCountSettings
+): number =>
+  daysToExpiry(valuationDate, expiryDate, settings) /
+  DAYS_PER_YEAR[settings.convention];
+
+// Nearest expiry date whose year fraction matches T, used to date legs that
+// were created from a year fraction
+export const expiryFromYearFraction = (
+  valuationDate: string,
+  T: number,
+  settings: DayCountSettings
+): string => {
+  const { convention } = settings;
+  const start = parseIsoDate(valuationDate) ?? new Date();
+  const days = Math.max(0, Math.round(T * DAYS_PER_YEAR[convention]));
+  if (convention !== "BUS/252") return formatIsoDate(addDays(start, days));
+
+  const closed = closedDays(settings);
+  let date = start;
+  for (let counted = 0; counted < days;) {
+    date = addDays(date, 1);
+    if (isBusinessDay(date, closed)) counted++;
+  }
+  return formatIsoDate(date);
+};
@@ -0,0 +1,79 @@
+// engine.bench.ts
+// Throughput of the JS engine against the scalar and batched WASM exports,
+// filling the same 31x31 grid the 3D chart uses. Run with `npm run bench`.
+import { readFileSync } from "node:fs";
+import { bench, describe } from "vitest";
+import { jsCalculateGreeks } from "./calculations";
+import { instantiateWasm } from "./wasm";
+import { OptionParams } from "./types";
+
+const wasmModule = await instantiateWasm(
+  readFileSync(new URL("../../public/wasm/options_calc.wasm", import.meta.url))
+);
+
+const points: OptionParams[] = [];
+for (let i = 0; i <= 30; i++) {
+  for (let j = 0; j <= 30; j++) {
+    points.push({
+      type: "call",
+      exercise: "european",
+      S: 70 + i * 2,
+      K: 100,
+      T: 1,
+      r: 0.05,
+      q: 0,
+      sigma: 0.05 + (j * 0.55) / 30,
+    });
+  }
+}
+
+// Each fill keeps the plotted Greek per point, as the worker does
+const fillScalar = () =>
+  points.map(
+    ({ type, S, K, T, r, q, sigma }) =>
+      wasmModule.calculateGreeks(type, S, K, T, r, q, sigma).delta
+  );
+const fillBatched = () => wasmModule.calculateGreekBatch(points, "delta");
+
+const fastestFill = (fill: () => unknown) => {
+  let fastest = Infinity;
+  for (let round = 0; round < 20; round++) {
+    const start = performance.now();
+    for (let i = 0; i < 50; i++) fill();
+    fastest = Math.min(fastest, performance.now() - start);
+  }
+  return fastest;
+};
+
+// Wall-clock ratios swing with machine load, so the run only fails on a slow
+// batch when a minimum is asked for, e.g. BENCH_MIN_BATCH_SPEEDUP=1.1 on a
+// quiet machine
+const speedup = fastestFill(fillScalar) / fastestFill(fillBatched);
+console.log(`Batched WASM is ${speedup.toFixed(2)}x scalar`);
+const minSpeedup = Number(process.env.BENCH_MIN_BATCH_SPEEDUP ?? 0);
+if (speedup < minSpeedup) {
+  throw new Error(
+    `Batched WASM is ${speedup.toFixed(2)}x scalar, below the required ${minSpeedup}x`
+  );
+}
+
+describe("31x31 European grid", () => {
+  bench("JS", () => {
+    points.map(
+      ({ type, S, K, T, r, q, sigma }) =>
+        jsCalculateGreeks(type, S, K, T, r, q, sigma).delta
+    );
+  });
+
+  bench("scalar WASM", () => {
+    fillScalar();
+  });
+
+  bench("batched WASM", () => {
+    fillBatched();
+  });
+
+  bench("batched WASM, every Greek", () => {
+    wasmModule.calculateGreeksBatch(points);
+  });
+});
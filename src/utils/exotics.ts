@@ -0,0 +1,304 @@
+// exotics.ts
+import {
+  cdf,
+  createUniformGenerator,
+  d1,
+  d2,
+  isBarrierBreached,
+  jsCalculateGreeks,
+} from "./calculations";
+import {
+  BarrierType,
+  ExoticTerms,
+  Greeks,
+  OptionParams,
+  PayoffStyle,
+} from "./types";
+
+export const DEFAULT_EXOTIC_TERMS: ExoticTerms = {
+  payoff: "vanilla",
+  cashPayout: 1,
+  barrierType: "downOut",
+  barrier: 80,
+  fixings: 12,
+};
+
+export const PAYOFF_LABELS: Record<PayoffStyle, string> = {
+  vanilla: "Vanilla",
+  cashDigital: "Cash-or-Nothing",
+  assetDigital: "Asset-or-Nothing",
+  barrier: "Barrier",
+  asian: "Asian (Arithmetic)",
+};
+
+export const BARRIER_LABELS: Record<BarrierType, string> = {
+  downOut: "Down-and-Out",
+  upOut: "Up-and-Out",
+  downIn: "Down-and-In",
+  upIn: "Up-and-In",
+};
+
+export const MAX_ASIAN_FIXINGS = 252;
+export const ASIAN_PATHS = 2000;
+const ASIAN_SEED = 7;
+
+export const hasExoticPayoff = (point: { exotic?: ExoticTerms }) =>
+  point.exotic !== undefined && point.exotic.payoff !== "vanilla";
+
+const vanillaPrice = ({ type, S, K, T, r, q, sigma }: OptionParams) =>
+  jsCalculateGreeks(type, S, K, T, r, q, sigma).price;
+
+const digitalPrice = (point: OptionParams, terms: ExoticTerms) => {
+  const { type, S, K, T, r, q, sigma } = point;
+  const sign = type === "call" ? 1 : -1;
+  const isCash = terms.payoff === "cashDigital";
+  if (T <= 0) {
+    const inTheMoney = sign * (S - K) > 0;
+    return inTheMoney ? (isCash ? terms.cashPayout : S) : 0;
+  }
+  return isCash
+    ? terms.cashPayout * Math.exp(-r * T) * cdf(sign * d2(S, K, T, r, q, sigma))
+    : S * Math.exp(-q * T) * cdf(sign * d1(S, K, T, r, q, sigma));
+};
+
+// Reiner-Rubinstein knock-out prices without rebate, for a spot that has not
+// yet touched the barrier H
+const knockOutPrice = (point: OptionParams, down: boolean, H: number) => {
+  const { type, S, K, T, r, q, sigma } = point;
+  const phi = type === "call" ? 1 : -1;
+  const eta = down ? 1 : -1;
+  const sigmaRootT = sigma * Math.sqrt(T);
+  const mu = (r - q - (sigma * sigma) / 2) / (sigma * sigma);
+  const shift = (1 + mu) * sigmaRootT;
+  const asset = S * Math.exp(-q * T);
+  const strike = K * Math.exp(-r * T);
+  const assetReflection = Math.pow(H / S, 2 * (mu + 1));
+  const strikeReflection = Math.pow(H / S, 2 * mu);
+
+  const direct = (x: number) =>
+    phi * asset * cdf(phi * x) - phi * strike * cdf(phi * (x - sigmaRootT));
+  const reflected = (y: number) =>
+    phi * asset * assetReflection * cdf(eta * y) -
+    phi * strike * strikeReflection * cdf(eta * (y - sigmaRootT));
+
+  const A = direct(Math.log(S / K) / sigmaRootT + shift);
+  const B = direct(Math.log(S / H) / sigmaRootT + shift);
+  const C = reflected(Math.log((H * H) / (S * K)) / sigmaRootT + shift);
+  const D = reflected(Math.log(H / S) / sigmaRootT + shift);
+
+  if (type === "call") {
+    if (down) return K > H ? A - C : B - D;
+    return K > H ? 0 : A - B + C - D;
+  }
+  if (down) return K > H ? A - B + C - D : 0;
+  return K > H ? B - D : A - C;
+};
+
+// Knock-ins follow from in-out parity with the vanilla
+const barrierPrice = (point: OptionParams, terms: ExoticTerms) => {
+  const { barrierType, barrier } = terms;
+  const knockIn = barrierType.endsWith("In");
+  const vanilla = vanillaPrice(point);
+  if (isBarrierBreached(barrierType, point.S, barrier)) {
+    return knockIn ? vanilla : 0;
+  }
+  if (point.T <= 0) return knockIn ? 0 : vanilla;
+  const out = Math.max(
+    knockOutPrice(point, barrierType.startsWith("down"), barrier),
+    0
+  );
+  return knockIn ? Math.max(vanilla - out, 0) : out;
+};
+
+// Antithetic normals shared by every Asian price with the same fixing count,
+// so bumped prices reuse the same paths and the Greeks stay smooth
+const asianNormalsCache = new Map<number, Float64Array>();
+
+const asianNormals = (fixings: number) => {
+  const cached = asianNormalsCache.get(fixings);
+  if (cached) return cached;
+
+  const nextUniform = createUniformGenerator(ASIAN_SEED);
+  const normals = new Float64Array((ASIAN_PATHS / 2) * fixings);
+  for (let i = 0; i < normals.length; i += 2) {
+    const radius = Math.sqrt(-2 * Math.log(nextUniform()));
+    const angle = 2 * Math.PI * nextUniform();
+    normals[i] = radius * Math.cos(angle);
+    if (i + 1 < normals.length) normals[i + 1] = radius * Math.sin(angle);
+  }
+  asianNormalsCache.set(fixings, normals);
+  return normals;
+};
+
+// Closed form for the discretely sampled geometric average, which is
+// lognormal; it serves as the control variate for the arithmetic one
+const geometricAsianPrice = (point: OptionParams, fixings: number) => {
+  const { type, S, K, T, r, q, sigma } = point;
+  const meanTime = (T * (fixings + 1)) / (2 * fixings);
+  const variance =
+    (sigma * sigma * T * (fixings + 1) * (2 * fixings + 1)) /
+    (6 * fixings * fixings);
+  const mean = Math.log(S) + (r - q - (sigma * sigma) / 2) * meanTime;
+  const stdDev = Math.sqrt(variance);
+  const forward = Math.exp(mean + variance / 2);
+  const d2Value = (mean - Math.log(K)) / stdDev;
+  const d1Value = d2Value + stdDev;
+  const discount = Math.exp(-r * T);
+
+  return type === "call"
+    ? discount * (forward * cdf(d1Value) - K * cdf(d2Value))
+    : discount * (K * cdf(-d2Value) - forward * cdf(-d1Value));
+};
+
+// Per-path arithmetic and geometric averages for a unit spot. Both scale with
+// the spot, so one simulation serves every spot bump of a point and every
+// point of a spot sweep that shares the other inputs.
+interface AsianAverages {
+  arithmetic: Float64Array;
+  geometric: Float64Array;
+}
+
+const MAX_CACHED_AVERAGES = 64;
+const asianAveragesCache = new Map<string, AsianAverages>();
+
+const asianAverages = (
+  fixings: number,
+  T: number,
+  r: number,
+  q: number,
+  sigma: number
+): AsianAverages => {
+  const key = [fixings, T, r, q, sigma].join();
+  const cached = asianAveragesCache.get(key);
+  if (cached) return cached;
+
+  const normals = asianNormals(fixings);
+  const dt = T / fixings;
+  const drift = (r - q - (sigma * sigma) / 2) * dt;
+  const diffusion = sigma * Math.sqrt(dt);
+  const arithmetic = new Float64Array(ASIAN_PATHS);
+  const geometric = new Float64Array(ASIAN_PATHS);
+
+  for (let path = 0; path < ASIAN_PATHS; path++) {
+    const pair = path >> 1;
+    const sign = path % 2 === 0 ? 1 : -1;
+    let logPrice = 0;
+    let sum = 0;
+    let logSum = 0;
+    for (let i = 0; i < fixings; i++) {
+      logPrice += drift + sign * diffusion * normals[pair * fixings + i];
+      sum += Math.exp(logPrice);
+      logSum += logPrice;
+    }
+    arithmetic[path] = sum / fixings;
+    geometric[path] = Math.exp(logSum / fixings);
+  }
+
+  if (asianAveragesCache.size >= MAX_CACHED_AVERAGES) {
+    asianAveragesCache.clear();
+  }
+  const averages = { arithmetic, geometric };
+  asianAveragesCache.set(key, averages);
+  return averages;
+};
+
+const asianPrice = (point: OptionParams, terms: ExoticTerms) => {
+  const { type, S, K, T, r, q, sigma } = point;
+  const payoff = (average: number) =>
+    Math.max(type === "call" ? average - K : K - average, 0);
+  if (T <= 0) return payoff(S);
+
+  const fixings = Math.min(
+    Math.max(Math.round(terms.fixings), 1),
+    MAX_ASIAN_FIXINGS
+  );
+  const { arithmetic, geometric } = asianAverages(fixings, T, r, q, sigma);
+
+  let correction = 0;
+  for (let path = 0; path < ASIAN_PATHS; path++) {
+    correction += payoff(S * arithmetic[path]) - payoff(S * geometric[path]);
+  }
+
+  return (
+    geometricAsianPrice(point, fixings) +
+    (Math.exp(-r * T) * correction) / ASIAN_PATHS
+  );
+};
+
+export const jsExoticPrice = (point: OptionParams): number => {
+  const terms = point.exotic ?? DEFAULT_EXOTIC_TERMS;
+  if (terms.payoff === "cashDigital" || terms.payoff === "assetDigital") {
+    return digitalPrice(point, terms);
+  }
+  if (terms.payoff === "barrier") return barrierPrice(point, terms);
+  if (terms.payoff === "asian") return asianPrice(point, terms);
+  return vanillaPrice(point);
+};
+
+// Bump-and-reprice Greeks in the same units as jsCalculateGreeks: per day
+// for time derivatives and per 1% for rate and volatility derivatives
+const bumpGreeks = (
+  price: (point: OptionParams) => number,
+  point: OptionParams,
+  spotBumpFraction: number
+): Greeks => {
+  const { S, T, r, sigma } = point;
+  const spotBump = spotBumpFraction * S;
+  const volBump = Math.min(0.01, sigma / 2);
+  const rateBump = 0.001;
+  const timeBump = Math.min(1 / 365, T / 2);
+
+  const at = (changes: Partial<OptionParams>) =>
+    price({ ...point, ...changes });
+  const spotLadder = (changes: Partial<OptionParams>) => ({
+    down: at({ ...changes, S: S - spotBump }),
+    mid: at(changes),
+    up: at({ ...changes, S: S + spotBump }),
+  });
+  const deltaOf = ({ down, up }: ReturnType<typeof spotLadder>) =>
+    (up - down) / (2 * spotBump);
+  const gammaOf = ({ down, mid, up }: ReturnType<typeof spotLadder>) =>
+    (up - 2 * mid + down) / (spotBump * spotBump);
+  const perDay = (change: number) =>
+    timeBump > 0 ? change / timeBump / 365 : 0;
+
+  const base = spotLadder({});
+  const volUp = spotLadder({ sigma: sigma + volBump });
+  const volDown = spotLadder({ sigma: sigma - volBump });
+  const later = timeBump > 0 ? spotLadder({ T: T - timeBump }) : base;
+  const delta = deltaOf(base);
+  const gamma = gammaOf(base);
+
+  return {
+    delta,
+    gamma,
+    theta: perDay(later.mid - base.mid),
+    vega: (volUp.mid - volDown.mid) / (2 * volBump) / 100,
+    rho:
+      (at({ r: r + rateBump }) - at({ r: r - rateBump })) /
+      (2 * rateBump) /
+      100,
+    price: base.mid,
+    vanna: (deltaOf(volUp) - deltaOf(volDown)) / (2 * volBump) / 100,
+    volga:
+      (volUp.mid - 2 * base.mid + volDown.mid) / (volBump * volBump) / 10000,
+    charm: perDay(deltaOf(later) - delta),
+    speed:
+      (at({ S: S + 2 * spotBump }) -
+        2 * base.up +
+        2 * base.down -
+        at({ S: S - 2 * spotBump })) /
+      (2 * spotBump * spotBump * spotBump),
+    color: perDay(gammaOf(later) - gamma),
+    zomma: (gammaOf(volUp) - gammaOf(volDown)) / (2 * volBump) / 100,
+  };
+};
+
+// Closed-form payoffs tolerate a fine spot bump; Monte Carlo needs a wider
+// one to keep gamma out of the noise
+export const jsCalculateExoticGreeks = (point: OptionParams): Greeks =>
+  bumpGreeks(
+    jsExoticPrice,
+    point,
+    point.exotic?.payoff === "asian" ? 0.01 : 0.001
+  );
@@ -0,0 +1,82 @@
+// hedging.ts
+import { createUniformGenerator } from "./calculations";
+import { Greeks, HedgeTarget, PnlStats } from "./types";
+
+export const MAX_HEDGE_PATHS = 1000;
+export const MAX_HEDGE_DAYS = 365;
+export const SKETCH_POINTS = 40;
+
+// Sizes the option leg to cancel the target Greek, then shares to cancel
+// whatever delta is left. A delta target needs no option leg.
+export const hedgeQuantities = (
+  portfolio: Pick<Greeks, "delta" | "gamma" | "vega">,
+  instrument: Pick<Greeks, "delta" | "gamma" | "vega">,
+  target: HedgeTarget
+) => {
+  const optionQuantity =
+    target === "delta" || Math.abs(instrument[target]) < 1e-12
+      ? 0
+      : -portfolio[target] / instrument[target];
+  return {
+    optionQuantity,
+    shares: -(portfolio.delta + optionQuantity * instrument.delta),
+  };
+};
+
+// Seeded GBM paths of steps + 1 prices, each step dt years long
+export const generatePricePaths = (
+  S: number,
+  r: number,
+  q: number,
+  sigma: number,
+  dt: number,
+  steps: number,
+  count: number,
+  seed: number
+): number[][] => {
+  const nextUniform = createUniformGenerator(seed);
+  let spare: number | null = null;
+  const nextNormal = () => {
+    if (spare !== null) {
+      const normal = spare;
+      spare = null;
+      return normal;
+    }
+    const radius = Math.sqrt(-2 * Math.log(nextUniform()));
+    const angle = 2 * Math.PI * nextUniform();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+
+  const drift = (r - q - 0.5 * sigma * sigma) * dt;
+  const diffusion = sigma * Math.sqrt(dt);
+  return Array.from({ length: count }, () => {
+    const path = [S];
+    for (let t = 1; t <= steps; t++) {
+      path.push(path[t - 1] * Math.exp(drift + diffusion * nextNormal()));
+    }
+    return path;
+  });
+};
+
+// Linearly resamples sketch points onto steps + 1 evenly spaced times
+export const resamplePath = (points: number[], steps: number): number[] =>
+  Array.from({ length: steps + 1 }, (_, t) => {
+    if (points.length < 2) return points[0] ?? 1;
+    const position = (t * (points.length - 1)) / Math.max(steps, 1);
+    const index = Math.min(Math.floor(position), points.length - 2);
+    const weight = position - index;
+    return points[index] + weight * (points[index + 1] - points[index]);
+  });
+
+export const summarizePnl = (values: number[]): PnlStats => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+};
@@ -0,0 +1,66 @@
+// monteCarlo.ts
+import { MonteCarloBin, MonteCarloResult } from "./types";
+
+// Portfolio value at the horizon is a function of spot alone, so it is priced
+// once on this many grid intervals and interpolated for each path
+export const MONTE_CARLO_GRID_STEPS = 400;
+export const MONTE_CARLO_BINS = 40;
+export const MAX_MONTE_CARLO_PATHS = 100000;
+
+// Linear interpolation of ys sampled on an evenly spaced grid from min to max
+export const interpolateGrid = (
+  ys: number[],
+  min: number,
+  max: number,
+  x: number
+): number => {
+  if (max <= min || ys.length < 2) return ys[0];
+  const position = ((x - min) / (max - min)) * (ys.length - 1);
+  const index = Math.min(Math.max(Math.floor(position), 0), ys.length - 2);
+  const weight = position - index;
+  return ys[index] + weight * (ys[index + 1] - ys[index]);
+};
+
+export const summarizePnlDistribution = (
+  pnl: Float64Array,
+  confidence: number,
+  bins: number = MONTE_CARLO_BINS
+): MonteCarloResult => {
+  const sorted = pnl.slice().sort();
+  const count = sorted.length;
+  const min = sorted[0];
+  const max = sorted[count - 1];
+
+  let total = 0;
+  let profitable = 0;
+  sorted.forEach((value) => {
+    total += value;
+    if (value > 0) profitable++;
+  });
+
+  // Tail of the worst (1 - confidence) share of paths
+  const tailCount = Math.max(Math.floor(count * (1 - confidence)), 1);
+  let tailTotal = 0;
+  for (let i = 0; i < tailCount; i++) tailTotal += sorted[i];
+
+  const width = (max - min) / bins;
+  const counts = new Array<number>(bins).fill(0);
+  sorted.forEach((value) => {
+    const bin = width > 0 ? Math.floor((value - min) / width) : 0;
+    counts[Math.min(bin, bins - 1)]++;
+  });
+  const histogram: MonteCarloBin[] = counts.map((binCount, i) => ({
+    pnl: min + (i + 0.5) * width,
+    probability: binCount / count,
+  }));
+
+  return {
+    histogram,
+    paths: count,
+    probabilityOfProfit: profitable / count,
+    expectedValue: total / count,
+    valueAtRisk: -sorted[tailCount - 1],
+    conditionalValueAtRisk: -tailTotal / tailCount,
+    confidence,
+  };
+};
@@ -0,0 +1,320 @@
+// optionChain.ts
+import { jsCalculateGreeks, jsImpliedVolatility } from "./calculations";
+import { formatIsoDate, parseIsoDate, yearFraction } from "./dayCount";
+import {
+  ChainColumnMapping,
+  ChainField,
+  ChainImportError,
+  ChainImportResult,
+  ChainRow,
+  DayCountSettings,
+  ExpiryUnit,
+  PortfolioOption,
+} from "./types";
+
+export const CHAIN_FIELDS: Array<{
+  key: ChainField;
+  label: string;
+  required: boolean;
+}> = [
+  { key: "strike", label: "Strike", required: true },
+  { key: "expiry", label: "Expiry", required: true },
+  { key: "type", label: "Type", required: true },
+  { key: "bid", label: "Bid", required: false },
+  { key: "ask", label: "Ask", required: false },
+  { key: "iv", label: "IV", required: false },
+  { key: "openInterest", label: "Open Interest", required: false },
+];
+
+const COLUMN_ALIASES: Record<ChainField, string[]> = {
+  strike: ["strike", "strikeprice", "k"],
+  expiry: ["expiry", "expiration", "expirationdate", "maturity", "dte", "t"],
+  type: ["type", "optiontype", "callput", "putcall", "cp", "right"],
+  bid: ["bid", "bidprice"],
+  ask: ["ask", "askprice", "offer"],
+  iv: ["iv", "impliedvolatility", "impliedvol", "vol", "volatility"],
+  openInterest: ["openinterest", "oi", "openint"],
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z]/g, "");
+
+// Splits CSV text into rows of fields, honouring quoted fields with embedded
+// commas, doubled quotes and newlines.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+};
+
+// Reads a CSV file with a header row, or a JSON array of flat objects, into
+// string records keyed by column name.
+export const parseChainFile = (
+  text: string
+): { headers: string[]; records: Array<Record<string, string>> } => {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed);
+    const items: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+    const headers = new Set<string>();
+    const records = items.map((item) => {
+      const record: Record<string, string> = {};
+      if (item && typeof item === "object") {
+        Object.entries(item).forEach(([key, value]) => {
+          headers.add(key);
+          record[key] = value === null || value === undefined ? "" : `${value}`;
+        });
+      }
+      return record;
+    });
+    return { headers: [...headers], records };
+  }
+
+  const [headerRow = [], ...dataRows] = parseCsv(trimmed);
+  const headers = headerRow.map((header) => header.trim());
+  const records = dataRows.map((fields) =>
+    Object.fromEntries(
+      headers.map((header, i) => [header, (fields[i] ?? "").trim()])
+    )
+  );
+  return { headers, records };
+};
+
+export const guessColumnMapping = (headers: string[]): ChainColumnMapping => {
+  const mapping = {} as ChainColumnMapping;
+  CHAIN_FIELDS.forEach(({ key }) => {
+    mapping[key] =
+      headers.find((header) =>
+        COLUMN_ALIASES[key].includes(normalizeHeader(header))
+      ) ?? "";
+  });
+  return mapping;
+};
+
+const parseNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === "") return null;
+  const number = Number(value.replace(/[$,\s]/g, ""));
+  return isFinite(number) ? number : NaN;
+};
+
+const parseType = (value: string | undefined): "call" | "put" | null => {
+  const normalized = (value ?? "").trim().toLowerCase();
+  if (normalized === "c" || normalized === "call") return "call";
+  if (normalized === "p" || normalized === "put") return "put";
+  return null;
+};
+
+// Calendar date of a chain expiry. ISO dates are taken as written; other
+// formats are read in local time, as a user would type them.
+const parseExpiryDate = (value: string | undefined): string | null => {
+  const text = (value ?? "").trim();
+  if (parseIsoDate(text)) return text;
+  const time = Date.parse(text);
+  if (isNaN(time)) return null;
+  const date = new Date(time);
+  return formatIsoDate(
+    new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
+  );
+};
+
+// Dated expiries keep their date and are measured from the valuation date
+// under the active day count
+const parseExpiry = (
+  value: string | undefined,
+  unit: ExpiryUnit,
+  valuationDate: string,
+  dayCount: DayCountSettings
+): { T: number; date: string | null } => {
+  if (unit === "date") {
+    const date = parseExpiryDate(value);
+    return {
+      T: date ? yearFraction(valuationDate, date, dayCount) : NaN,
+      date,
+    };
+  }
+  const number = parseNumber(value) ?? NaN;
+  return { T: unit === "days" ? number / 365 : number, date: null };
+};
+
+// IVs quoted as percentages ("25%", or any value above 5) become decimals
+const parseIv = (value: string | undefined): number | null => {
+  const isPercent = (value ?? "").includes("%");
+  const number = parseNumber((value ?? "").replace("%", ""));
+  if (number === null || isNaN(number)) return number;
+  return isPercent || number > 5 ? number / 100 : number;
+};
+
+// Validates each record against the mapping and back-fills missing IVs from
+// the bid/ask mid. Invalid rows are reported by their 1-based data line and
+// left out; rows whose IV cannot be solved are kept without one.
+export const buildOptionChain = (
+  records: Array<Record<string, string>>,
+  mapping: ChainColumnMapping,
+  expiryUnit: ExpiryUnit,
+  market: { S: number; r: number; q: number },
+  valuationDate: string,
+  dayCount: DayCountSettings
+): ChainImportResult => {
+  const rows: ChainRow[] = [];
+  const errors: ChainImportError[] = [];
+
+  const missing = CHAIN_FIELDS.filter(
+    ({ key, required }) => required && !mapping[key]
+  );
+  if (missing.length > 0) {
+    return {
+      rows,
+      errors: missing.map(({ label }) => ({
+        line: 0,
+        message: `${label} column is not mapped`,
+      })),
+    };
+  }
+
+  records.forEach((record, index) => {
+    const line = index + 1;
+    const get = (field: ChainField) =>
+      mapping[field] ? record[mapping[field]] : undefined;
+    const fail = (message: string) => errors.push({ line, message });
+
+    const type = parseType(get("type"));
+    const strike = parseNumber(get("strike"));
+    const { T: expiry, date: expiryDate } = parseExpiry(
+      get("expiry"),
+      expiryUnit,
+      valuationDate,
+      dayCount
+    );
+    const bid = parseNumber(get("bid"));
+    const ask = parseNumber(get("ask"));
+    const importedIv = parseIv(get("iv"));
+    const openInterest = parseNumber(get("openInterest"));
+
+    if (!type) return fail(`Unrecognised option type "${get("type") ?? ""}"`);
+    if (strike === null || !(strike > 0)) {
+      return fail("Strike must be a positive number");
+    }
+    if (!(expiry > 0)) return fail("Expiry must be in the future");
+    if ((bid !== null && !(bid >= 0)) || (ask !== null && !(ask >= 0))) {
+      return fail("Bid and ask must be non-negative numbers");
+    }
+    if (bid !== null && ask !== null && ask < bid) {
+      return fail("Ask is below bid");
+    }
+    if (importedIv !== null && !(importedIv > 0)) {
+      return fail("IV must be a positive number");
+    }
+    if (openInterest !== null && isNaN(openInterest)) {
+      return fail("Open interest must be a number");
+    }
+
+    const mid =
+      bid !== null && ask !== null ? (bid + ask) / 2 : bid !== null ? bid : ask;
+    let iv = importedIv;
+    let ivSource: ChainRow["ivSource"] =
+      importedIv !== null ? "imported" : null;
+
+    if (iv === null && mid !== null) {
+      const result = jsImpliedVolatility(
+        type,
+        mid,
+        market.S,
+        strike,
+        expiry,
+        market.r,
+        market.q
+      );
+      if (result.status === "ok") {
+        iv = result.sigma;
+        ivSource = "mid";
+      } else {
+        fail("IV could not be solved from the mid price");
+      }
+    }
+
+    rows.push({
+      type,
+      strike,
+      expiry,
+      expiryDate,
+      bid,
+      ask,
+      mid,
+      iv,
+      ivSource,
+      openInterest,
+    });
+  });
+
+  rows.sort((a, b) => a.expiry - b.expiry || a.strike - b.strike);
+  return { rows, errors };
+};
+
+// Turns a chain row into a portfolio leg entered at the mid, or at
+// theoretical value when the row has no quotes.
+export const chainRowToOption = (
+  row: ChainRow,
+  position: PortfolioOption["position"],
+  market: { S: number; r: number; q: number; sigma: number }
+): PortfolioOption => {
+  const sigma = row.iv ?? market.sigma;
+  return {
+    type: row.type,
+    exercise: "european",
+    position,
+    quantity: 1,
+    S: market.S,
+    K: row.strike,
+    T: row.expiry,
+    r: market.r,
+    q: market.q,
+    sigma,
+    ...(row.expiryDate && { expiry: row.expiryDate }),
+    entryPrice:
+      row.mid ??
+      jsCalculateGreeks(
+        row.type,
+        market.S,
+        row.strike,
+        row.expiry,
+        market.r,
+        market.q,
+        sigma
+      ).price,
+  };
+};
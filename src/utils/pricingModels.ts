@@ -0,0 +1,104 @@
+// pricingModels.ts
+import { hasExoticPayoff } from "./exotics";
+import { OptionParams, PricingModel } from "./types";
+
+export const MODEL_LABELS: Record<PricingModel, string> = {
+  blackScholes: "Black-Scholes",
+  black76: "Black-76 (Futures)",
+  bachelier: "Bachelier (Normal)",
+};
+
+export const isPricingModel = (value: unknown): value is PricingModel =>
+  typeof value === "string" && value in MODEL_LABELS;
+
+// Bachelier prices, forwards and rates may go negative and its vols are
+// quoted in price units, so it accepts wider inputs than the lognormal models
+interface ModelLimits {
+  minPrice: number;
+  maxPrice: number;
+  minVol: number;
+  maxVol: number;
+  minRate: number;
+  maxRate: number;
+}
+
+export const MODEL_LIMITS: Record<PricingModel, ModelLimits> = {
+  blackScholes: {
+    minPrice: 1,
+    maxPrice: 1000,
+    minVol: 0.01,
+    maxVol: 2,
+    minRate: 0,
+    maxRate: 0.2,
+  },
+  black76: {
+    minPrice: 1,
+    maxPrice: 1000,
+    minVol: 0.01,
+    maxVol: 2,
+    minRate: 0,
+    maxRate: 0.2,
+  },
+  bachelier: {
+    minPrice: -1000,
+    maxPrice: 1000,
+    minVol: 0.01,
+    maxVol: 1000,
+    minRate: -0.05,
+    maxRate: 0.2,
+  },
+};
+
+// Lognormal vols are fractions and normal vols are in price units, so moving
+// between the two converts at the price level (normal vol ≈ σ·S), clamped to
+// the new model's range
+export const convertVolatility = (
+  sigma: number,
+  from: PricingModel,
+  to: PricingModel,
+  level: number
+): number => {
+  if ((from === "bachelier") === (to === "bachelier")) return sigma;
+  const scale = Math.max(Math.abs(level), 1);
+  const converted = to === "bachelier" ? sigma * scale : sigma / scale;
+  const { minVol, maxVol } = MODEL_LIMITS[to];
+  return Math.min(Math.max(Number(converted.toFixed(4)), minVol), maxVol);
+};
+
+export const spotLabel = (model: PricingModel) =>
+  model === "blackScholes" ? "Spot Price" : "Futures Price";
+
+export const volatilityLabel = (model: PricingModel) =>
+  model === "bachelier" ? "Normal Vol" : "Volatility";
+
+type PricingInputs = Pick<
+  OptionParams,
+  "S" | "K" | "T" | "r" | "q" | "sigma" | "model" | "exotic"
+>;
+
+// Inputs the engines can only answer with a limit or NaN; legs that fail are
+// left out of pricing rather than plotted
+export const validateOptionInputs = ({
+  S,
+  K,
+  T,
+  r,
+  q,
+  sigma,
+  model = "blackScholes",
+  exotic,
+}: PricingInputs): string | null => {
+  if (![S, K, T, r, q, sigma].every(Number.isFinite)) {
+    return "Inputs must be numbers";
+  }
+  if (sigma < 0) return "Volatility cannot be negative";
+  // Exotic Greeks bump the vol both ways and barrier prices divide by it
+  if (sigma === 0 && hasExoticPayoff({ exotic })) {
+    return "Exotic payoffs need a positive volatility";
+  }
+  if (model !== "bachelier" && (S <= 0 || K <= 0)) {
+    const spot = spotLabel(model).toLowerCase();
+    return `${MODEL_LABELS[model]} needs a positive ${spot} and strike`;
+  }
+  return null;
+};
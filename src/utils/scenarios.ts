@@ -0,0 +1,28 @@
+// scenarios.ts
+import { SavedScenario, ScenarioShock } from "./types";
+
+export const SCENARIO_SPOT_SHOCKS = [
+  -0.2, -0.15, -0.1, -0.05, 0, 0.05, 0.1, 0.15, 0.2,
+];
+export const SCENARIO_VOL_SHOCKS = [-0.1, -0.05, 0, 0.05, 0.1];
+
+export const DEFAULT_SCENARIOS: SavedScenario[] = [
+  { name: "Crash", spotShock: -0.2, volShock: 0.15, daysForward: 0 },
+  {
+    name: "Vol crush after earnings",
+    spotShock: 0,
+    volShock: -0.1,
+    daysForward: 1,
+  },
+  { name: "Grind higher", spotShock: 0.05, volShock: -0.03, daysForward: 30 },
+];
+
+// Spot-major grid of shocks, all evaluated the same number of days forward
+export const buildScenarioGrid = (daysForward: number): ScenarioShock[] =>
+  SCENARIO_SPOT_SHOCKS.flatMap((spotShock) =>
+    SCENARIO_VOL_SHOCKS.map((volShock) => ({
+      spotShock,
+      volShock,
+      daysForward,
+    }))
+  );
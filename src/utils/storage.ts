@@ -0,0 +1,90 @@
+// storage.ts
+import { BARRIER_LABELS, MAX_ASIAN_FIXINGS, PAYOFF_LABELS } from "./exotics";
+import {
+  DayCountSettings,
+  ExoticTerms,
+  SavedScenario,
+  VolSurface,
+} from "./types";
+
+// Copies a stored value aside under a ".corrupt" key so it can be recovered
+// by hand
+export const keepCorruptCopy = (key: string) => {
+  const raw = localStorage.getItem(key);
+  if (raw !== null) localStorage.setItem(`${key}.corrupt`, raw);
+};
+
+// Reads a JSON value from localStorage, falling back when the key is missing,
+// unparsable or rejected by the validator. Corrupt values are kept aside.
+export const readStoredJson = <T>(
+  key: string,
+  fallback: T,
+  isValid: (value: unknown) => value is T
+): T => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return fallback;
+
+  try {
+    const value: unknown = JSON.parse(raw);
+    if (isValid(value)) return value;
+  } catch {
+    // Fall through to recovery below
+  }
+
+  console.warn(`Ignoring malformed "${key}" in localStorage`);
+  keepCorruptCopy(key);
+  return fallback;
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export const isVolSurface = (value: unknown): value is VolSurface => {
+  const surface = value as VolSurface | null;
+  return (
+    typeof surface?.enabled === "boolean" &&
+    Array.isArray(surface.slices) &&
+    surface.slices.every((slice) =>
+      (["T", "a", "b", "rho", "m", "sigma"] as const).every((key) =>
+        isFiniteNumber(slice?.[key])
+      )
+    )
+  );
+};
+
+export const isSavedScenarioList = (value: unknown): value is SavedScenario[] =>
+  Array.isArray(value) &&
+  value.every(
+    (scenario) =>
+      typeof scenario?.name === "string" &&
+      isFiniteNumber(scenario.spotShock) &&
+      isFiniteNumber(scenario.volShock) &&
+      isFiniteNumber(scenario.daysForward)
+  );
+
+export const isDayCountSettings = (
+  value: unknown
+): value is DayCountSettings => {
+  const settings = value as DayCountSettings | null;
+  return (
+    ["ACT/365", "ACT/360", "BUS/252"].includes(settings?.convention ?? "") &&
+    Array.isArray(settings?.holidays) &&
+    settings.holidays.every((date) => typeof date === "string") &&
+    ["boolean", "undefined"].includes(typeof settings.marketHolidays)
+  );
+};
+
+export const isExoticTerms = (value: unknown): value is ExoticTerms => {
+  const terms = value as ExoticTerms | null;
+  return (
+    Object.keys(PAYOFF_LABELS).includes(terms?.payoff ?? "") &&
+    isFiniteNumber(terms?.cashPayout) &&
+    terms.cashPayout >= 0 &&
+    Object.keys(BARRIER_LABELS).includes(terms.barrierType) &&
+    isFiniteNumber(terms.barrier) &&
+    terms.barrier > 0 &&
+    Number.isInteger(terms.fixings) &&
+    terms.fixings >= 1 &&
+    terms.fixings <= MAX_ASIAN_FIXINGS
+  );
+};
@@ -0,0 +1,117 @@
+// strategies.ts
+import { jsCalculateGreeks } from "./calculations";
+import {
+  PortfolioOption,
+  StrategyLeg,
+  StrategyParams,
+  StrategyTemplate,
+} from "./types";
+
+const leg = (
+  type: StrategyLeg["type"],
+  position: StrategyLeg["position"],
+  strikeOffset: number,
+  ratio: number = 1,
+  expiryScale: number = 1
+): StrategyLeg => ({ type, position, strikeOffset, ratio, expiryScale });
+
+export const STRATEGY_TEMPLATES: StrategyTemplate[] = [
+  {
+    id: "bullCallSpread",
+    name: "Bull Call Spread",
+    legs: [leg("call", "long", -0.5), leg("call", "short", 0.5)],
+  },
+  {
+    id: "bearPutSpread",
+    name: "Bear Put Spread",
+    legs: [leg("put", "long", 0.5), leg("put", "short", -0.5)],
+  },
+  {
+    id: "longStraddle",
+    name: "Long Straddle",
+    legs: [leg("call", "long", 0), leg("put", "long", 0)],
+  },
+  {
+    id: "shortStraddle",
+    name: "Short Straddle",
+    legs: [leg("call", "short", 0), leg("put", "short", 0)],
+  },
+  {
+    id: "longStrangle",
+    name: "Long Strangle",
+    legs: [leg("put", "long", -1), leg("call", "long", 1)],
+  },
+  {
+    id: "shortStrangle",
+    name: "Short Strangle",
+    legs: [leg("put", "short", -1), leg("call", "short", 1)],
+  },
+  {
+    id: "callButterfly",
+    name: "Long Call Butterfly",
+    legs: [
+      leg("call", "long", -1),
+      leg("call", "short", 0, 2),
+      leg("call", "long", 1),
+    ],
+  },
+  {
+    id: "ironCondor",
+    name: "Iron Condor",
+    legs: [
+      leg("put", "long", -2),
+      leg("put", "short", -1),
+      leg("call", "short", 1),
+      leg("call", "long", 2),
+    ],
+  },
+  {
+    // Option legs only; the underlying position is not modelled
+    id: "collar",
+    name: "Collar",
+    legs: [leg("put", "long", -1), leg("call", "short", 1)],
+  },
+  {
+    id: "callCalendar",
+    name: "Call Calendar Spread",
+    legs: [leg("call", "short", 0, 1, 1), leg("call", "long", 0, 1, 2)],
+  },
+  {
+    id: "callRatioSpread",
+    name: "Call Ratio Spread (1x2)",
+    legs: [leg("call", "long", 0), leg("call", "short", 1, 2)],
+  },
+  {
+    id: "putRatioSpread",
+    name: "Put Ratio Spread (1x2)",
+    legs: [leg("put", "long", 0), leg("put", "short", -1, 2)],
+  },
+];
+
+// Expands a template into portfolio legs priced at the current market
+// parameters, so the entry prices start out at theoretical value.
+export const buildStrategy = (
+  template: StrategyTemplate,
+  { center, width, quantity, S, T, r, q, sigma, model }: StrategyParams
+): PortfolioOption[] =>
+  template.legs.map(({ type, position, strikeOffset, ratio, expiryScale }) => {
+    // Normal strikes may be zero or negative
+    const offsetStrike = center + strikeOffset * width;
+    const K =
+      model === "bachelier" ? offsetStrike : Math.max(offsetStrike, 0.01);
+    const legT = T * expiryScale;
+    return {
+      type,
+      exercise: "european",
+      position,
+      quantity: Math.max(Math.round(quantity * ratio), 1),
+      S,
+      K,
+      T: legT,
+      r,
+      q,
+      sigma,
+      model,
+      entryPrice: jsCalculateGreeks(type, S, K, legT, r, q, sigma, model).price,
+    };
+  });
@@ -0,0 +1,149 @@
+// sweepRanges.ts
+import { readStoredJson } from "./storage";
+import { SweepMode, SweepRange, SweepSettings } from "./types";
+
+const SWEEP_KEY = "sweepRanges";
+
+export const DEFAULT_SWEEP_SETTINGS: SweepSettings = {
+  twoD: {
+    price: { min: 0.5, max: 1.5, steps: 100 },
+    time: { min: 0.01, max: 2, steps: 100 },
+    volatility: { min: 0.05, max: 1, steps: 95 },
+    interest: { min: 0.01, max: 0.1, steps: 90 },
+    dividend: { min: 0, max: 0.1, steps: 100 },
+    moneyness: { min: 0.5, max: 1.5, steps: 100 },
+  },
+  threeD: {
+    price: { min: 0.7, max: 1.3, steps: 30 },
+    strike: { min: 0.7, max: 1.3, steps: 30 },
+    time: { min: 0.1, max: 2, steps: 30 },
+    volatility: { min: 0.05, max: 0.6, steps: 30 },
+    interest: { min: 0.01, max: 0.1, steps: 30 },
+    dividend: { min: 0, max: 0.1, steps: 30 },
+  },
+  portfolio: {
+    price: { min: 0.5, max: 1.5, steps: 50 },
+    elapsed: { min: 0, max: 1, steps: 50 },
+    volShift: { min: -0.1, max: 0.3, steps: 50 },
+    interest: { min: 0.01, max: 0.1, steps: 50 },
+    dividend: { min: 0, max: 0.1, steps: 50 },
+  },
+  volSurface: {
+    strike: { min: 0.6, max: 1.4, steps: 30 },
+    time: { min: 0.05, max: 2, steps: 30 },
+  },
+};
+
+// Units shown next to the inputs; relative axes are scaled before a sweep
+export const SWEEP_UNITS: Record<SweepMode, Record<string, string>> = {
+  twoD: {
+    price: "× strike",
+    time: "years",
+    volatility: "σ",
+    interest: "rate",
+    dividend: "yield",
+    moneyness: "S/K",
+  },
+  threeD: {
+    price: "× spot",
+    strike: "× strike",
+    time: "years",
+    volatility: "σ",
+    interest: "rate",
+    dividend: "yield",
+  },
+  portfolio: {
+    price: "× spot",
+    elapsed: "× longest expiry",
+    volShift: "σ shift",
+    interest: "rate",
+    dividend: "yield",
+  },
+  volSurface: {
+    strike: "× spot",
+    time: "years",
+  },
+};
+
+const AXIS_LIMITS: Record<string, [number, number]> = {
+  price: [0.01, 10],
+  strike: [0.01, 10],
+  moneyness: [0.01, 10],
+  time: [0.001, 30],
+  volatility: [0.001, 5],
+  interest: [-0.1, 0.5],
+  dividend: [-0.1, 0.5],
+  elapsed: [0, 1],
+  volShift: [-1, 2],
+};
+
+// 3D grids grow with the square of the step count
+const MAX_STEPS: Record<SweepMode, number> = {
+  twoD: 1000,
+  threeD: 100,
+  portfolio: 500,
+  volSurface: 100,
+};
+
+export const validateSweepRange = (
+  mode: SweepMode,
+  axis: string,
+  { min, max, steps }: SweepRange
+): string | null => {
+  const [lower, upper] = AXIS_LIMITS[axis] ?? [-Infinity, Infinity];
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    return "Min and max must be numbers";
+  }
+  if (min >= max) return "Min must be below max";
+  if (min < lower || max > upper) {
+    return `Range must lie within ${lower} to ${upper}`;
+  }
+  if (!Number.isInteger(steps) || steps < 2 || steps > MAX_STEPS[mode]) {
+    return `Steps must be a whole number from 2 to ${MAX_STEPS[mode]}`;
+  }
+  return null;
+};
+
+export const scaleSweepRange = (
+  { min, max, steps }: SweepRange,
+  scale: number
+): SweepRange => ({ min: min * scale, max: max * scale, steps });
+
+// Computes each point from its index so the end point is hit exactly and
+// rounding error does not accumulate across the sweep
+export const sweepValues = ({ min, max, steps }: SweepRange): number[] =>
+  Array.from({ length: steps + 1 }, (_, i) =>
+    i === steps ? max : min + ((max - min) * i) / steps
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Keeps each stored range that still validates and defaults the rest, so
+// one bad entry does not discard the others
+export const loadSweepSettings = (): SweepSettings => {
+  const stored = readStoredJson(SWEEP_KEY, {}, isRecord);
+  const settings = structuredClone(DEFAULT_SWEEP_SETTINGS);
+
+  (Object.keys(settings) as SweepMode[]).forEach((mode) => {
+    const ranges = stored[mode];
+    if (!isRecord(ranges)) return;
+    const target: Record<string, SweepRange> = settings[mode];
+    Object.keys(target).forEach((axis) => {
+      const value = ranges[axis];
+      if (!isRecord(value)) return;
+      const range = {
+        min: Number(value.min),
+        max: Number(value.max),
+        steps: Number(value.steps),
+      };
+      if (validateSweepRange(mode, axis, range) === null) target[axis] = range;
+    });
+  });
+
+  return settings;
+};
+
+export const saveSweepSettings = (settings: SweepSettings) => {
+  localStorage.setItem(SWEEP_KEY, JSON.stringify(settings));
+};
@@ -1,19 +1,77 @@
 // types.ts
+export type ExerciseStyle = "european" | "american";
+
+// Black-76 and Bachelier read the spot input as the futures or forward price
+// and ignore the dividend yield; Bachelier vols are in price units
+export type PricingModel = "blackScholes" | "black76" | "bachelier";
+
+export type PayoffStyle =
+  "vanilla" | "cashDigital" | "assetDigital" | "barrier" | "asian";
+
+export type BarrierType = "downOut" | "upOut" | "downIn" | "upIn";
+
+// Contract terms beyond the strike; every non-vanilla payoff is European
+export interface ExoticTerms {
+  payoff: PayoffStyle;
+  // Paid by a cash-or-nothing digital that finishes in the money
+  cashPayout: number;
+  barrierType: BarrierType;
+  // Continuously monitored barrier level
+  barrier: number;
+  // Averaging dates of an arithmetic Asian, evenly spaced up to expiry
+  fixings: number;
+}
+
+export type VisualizationMode =
+  "2d" | "3d" | "portfolio" | "volSurface" | "scenarios";
+
+export type TwoDChartType = "greeks" | "boundary";
+
+export type TwoDParameter =
+  "price" | "time" | "volatility" | "interest" | "dividend" | "moneyness";
+
+export type DayCountConvention = "ACT/365" | "ACT/360" | "BUS/252";
+
+export interface DayCountSettings {
+  convention: DayCountConvention;
+  // ISO dates skipped by the BUS/252 convention in addition to weekends
+  holidays: string[];
+  // Also skip NYSE holidays generated by rule; unset in settings saved before
+  // the rules existed, whose lists were the US holidays
+  marketHolidays?: boolean;
+}
+
+export type PortfolioAxis =
+  "price" | "elapsed" | "volShift" | "interest" | "dividend";
+
 export interface OptionParams {
   type: "call" | "put";
+  exercise: ExerciseStyle;
   S: number;
   K: number;
   T: number;
   r: number;
+  q: number;
   sigma: number;
+  exotic?: ExoticTerms;
+  model?: PricingModel;
 }
 
 export interface CalculatorMessage {
+  id: number;
   task:
     | "calculateGreeks"
     | "calculatePortfolio"
     | "generateData"
-    | "generate3DData";
+    | "generate3DData"
+    | "generateBoundary"
+    | "generateVolSurface"
+    | "calculateScenarios"
+    | "simulatePnl"
+    | "generateFrames"
+    | "proposeHedge"
+    | "simulateHedge"
+    | "impliedVolatility";
   params: CalculatorParams;
 }
 
@@ -21,34 +79,82 @@ export type CalculatorParams =
   | GreeksParams
   | DataGenerationParams
   | ThreeDDataParams
-  | PortfolioParams;
+  | PortfolioParams
+  | BoundaryParams
+  | ImpliedVolatilityParams
+  | VolSurfaceParams
+  | ScenarioParams
+  | MonteCarloParams
+  | AnimationParams
+  | HedgeParams
+  | HedgeSimulationParams;
+
+// Year length in days of the active day-count convention. Time-decay Greeks
+// are reported per one such day and day offsets are counted in them; 365
+// when omitted.
+export interface DayBasis {
+  daysPerYear?: number;
+}
 
-export interface GreeksParams {
+export interface GreeksParams extends DayBasis {
   type: "call" | "put";
+  exercise: ExerciseStyle;
   S: number;
   K: number;
   T: number;
   r: number;
+  q: number;
   sigma: number;
+  exotic?: ExoticTerms;
+  model?: PricingModel;
   position: string;
   quantity: number;
+  entryPrice?: number;
 }
 
-export interface DataGenerationParams {
+export interface DataGenerationParams extends DayBasis {
   greek: keyof Greeks;
   interestRate: number;
+  dividendYield: number;
   optionType: "call" | "put";
+  exerciseStyle: ExerciseStyle;
   parameter: string;
   spotPrice: number;
   strikePrice: number;
   timeToExpiry: number;
   volatility: number;
+  range: SweepRange;
+  exotic?: ExoticTerms;
+  model?: PricingModel;
+  comparisons?: ComparisonSeries[];
+  volSurface?: VolSurface;
+}
+
+// A pinned snapshot of the 2D inputs, drawn alongside the live series
+export interface ComparisonSeries {
+  id: string;
+  greek: keyof Greeks;
+  optionType: "call" | "put";
+  exerciseStyle: ExerciseStyle;
+  exotic?: ExoticTerms;
+  model?: PricingModel;
+  spotPrice: number;
+  strikePrice: number;
+  timeToExpiry: number;
+  // ISO date the series expires on, which names it whatever the day count
+  expiryDate: string;
+  volatility: number;
+  interestRate: number;
+  dividendYield: number;
 }
 
-export interface ThreeDRange {
+export interface SweepRange {
   min: number;
   max: number;
   steps: number;
+}
+
+export interface ThreeDRange extends SweepRange {
   current: number;
 }
 
@@ -58,31 +164,281 @@ export interface ThreeDRanges {
   time: ThreeDRange;
   volatility: ThreeDRange;
   interest: ThreeDRange;
+  dividend: ThreeDRange;
 }
 
-export interface ThreeDDataParams {
+// Price and strike ranges are stored as multiples of the spot or strike so
+// they follow the inputs; every other axis is in its own units
+export interface SweepSettings {
+  twoD: Record<TwoDParameter, SweepRange>;
+  threeD: Record<keyof ThreeDRanges, SweepRange>;
+  portfolio: Record<PortfolioAxis, SweepRange>;
+  volSurface: Record<VolSurfaceAxis, SweepRange>;
+}
+
+export type VolSurfaceAxis = "strike" | "time";
+
+export type SweepMode = keyof SweepSettings;
+
+export interface ThreeDDataParams extends DayBasis {
   interestRate: number;
+  dividendYield: number;
   optionType: "call" | "put";
+  exerciseStyle: ExerciseStyle;
+  greek: keyof Greeks;
   spotPrice: number;
   strikePrice: number;
   timeToExpiry: number;
   volatility: number;
   xParam: keyof ThreeDRanges;
   yParam: keyof ThreeDRanges;
+  xRange: SweepRange;
+  yRange: SweepRange;
+  exotic?: ExoticTerms;
+  model?: PricingModel;
+  volSurface?: VolSurface;
 }
 
-export interface PortfolioParams {
+export interface PortfolioParams extends DayBasis {
   options: Array<GreeksParams>;
   xAxis: string;
-  range: {
-    min: number;
-    max: number;
-  };
+  range: SweepRange;
+  volShift?: number;
+  volSurface?: VolSurface;
+}
+
+// Spot shock as a fraction of spot, vol shock in absolute vol points
+export interface ScenarioShock {
+  spotShock: number;
+  volShock: number;
+  daysForward: number;
+}
+
+export interface SavedScenario extends ScenarioShock {
+  name: string;
+}
+
+export interface ScenarioParams extends DayBasis {
+  options: GreeksParams[];
+  shocks: ScenarioShock[];
+  volSurface?: VolSurface;
+}
+
+export interface MonteCarloParams extends DayBasis {
+  options: GreeksParams[];
+  spotPrice: number;
+  interestRate: number;
+  dividendYield: number;
+  volatility: number;
+  horizonDays: number;
+  paths: number;
+  seed: number;
+  confidence: number;
+  volSurface?: VolSurface;
+}
+
+export interface MonteCarloBin {
+  pnl: number;
+  probability: number;
+}
+
+export type HedgeTarget = "delta" | "gamma" | "vega";
+
+export type HedgedGreeks = Pick<Greeks, "delta" | "gamma" | "vega" | "theta">;
+
+export interface HedgeParams extends DayBasis {
+  options: GreeksParams[];
+  target: HedgeTarget;
+  // Option used to neutralise gamma or vega; shares always take the delta
+  instrument: OptionParams;
+  volSurface?: VolSurface;
+}
+
+export interface HedgeProposal {
+  portfolio: HedgedGreeks;
+  instrument: Greeks;
+  optionQuantity: number;
+  shares: number;
+  hedged: HedgedGreeks;
+}
+
+export interface HedgeSimulationParams extends HedgeParams {
+  volatility: number;
+  horizonDays: number;
+  rebalanceDays: number;
+  paths: number;
+  seed: number;
+  // Sketched path as multiples of spot; replaces the simulated paths
+  customPath?: number[];
+}
+
+export interface HedgePathPoint {
+  day: number;
+  spot: number;
+  hedgedPnl: number;
+  unhedgedPnl: number;
+}
+
+export interface PnlStats {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+export interface HedgeSimulationResult {
+  // The sketched path, or the first simulated one
+  path: HedgePathPoint[];
+  hedged: PnlStats;
+  unhedged: PnlStats;
+  paths: number;
+}
+
+export interface HedgeSettings {
+  target: HedgeTarget;
+  instrumentType: "call" | "put";
+  instrumentStrike: number;
+  instrumentExpiry: string;
+  instrumentSigma: number;
+  horizonDays: number;
+  rebalanceDays: number;
+  paths: number;
+  seed: number;
+  source: "simulated" | "sketched";
+  sketch: number[];
+}
+
+// Reruns a chart task with every expiry shortened by each entry of frameDays
+export interface AnimationParams {
+  frameTask: "generateData" | "generate3DData" | "calculatePortfolio";
+  params: DataGenerationParams | ThreeDDataParams | PortfolioParams;
+  frameDays: number[];
+}
+
+export interface AnimationFrame {
+  daysElapsed: number;
+  data: ChartDataPoint[] | SurfaceDataPoint[] | PortfolioDataPoint[];
+}
+
+export interface AnimationResult {
+  frameTask: AnimationParams["frameTask"];
+  frames: AnimationFrame[];
+}
+
+// VaR and CVaR are reported as positive losses at the given confidence
+export interface MonteCarloResult {
+  histogram: MonteCarloBin[];
+  paths: number;
+  probabilityOfProfit: number;
+  expectedValue: number;
+  valueAtRisk: number;
+  conditionalValueAtRisk: number;
+  confidence: number;
+}
+
+// Everything needed to reopen the same view from a shared link
+export interface ShareableState {
+  visualizationMode: VisualizationMode;
+  twoDChartType: TwoDChartType;
+  optionType: "call" | "put";
+  exerciseStyle: ExerciseStyle;
+  exotic: ExoticTerms;
+  model: PricingModel;
+  greek: keyof Greeks;
+  parameter: TwoDParameter;
+  xParameter: keyof ThreeDRanges;
+  yParameter: keyof ThreeDRanges;
+  portfolioParam: PortfolioAxis;
+  spotPrice: number;
+  strikePrice: number;
+  volatility: number;
+  timeToExpiry: number;
+  interestRate: number;
+  dividendYield: number;
+  volShift: number;
+  daysForward: number;
+  options: PortfolioOption[];
+  volSurface: VolSurface;
+  scenarioDays: number;
+  horizonDays: number;
+  monteCarloPaths: number;
+  monteCarloSeed: number;
+  confidence: number;
+  valuationDate: string;
+}
+
+// Raw SVI slice: total variance w(k) = a + b(rho(k - m) + sqrt((k - m)^2 +
+// sigma^2)) at log-moneyness k = ln(K/F) for expiry T
+export interface SviSlice {
+  T: number;
+  a: number;
+  b: number;
+  rho: number;
+  m: number;
+  sigma: number;
+}
+
+export interface VolSurface {
+  enabled: boolean;
+  slices: SviSlice[];
+}
+
+export interface VolSurfaceParams {
+  volSurface: VolSurface;
+  strikeRange: SweepRange;
+  timeRange: SweepRange;
+  spotPrice: number;
+  interestRate: number;
+  dividendYield: number;
+  volatility: number;
+}
+
+export interface BoundaryParams {
+  optionType: "call" | "put";
+  spotPrice: number;
+  strikePrice: number;
+  timeToExpiry: number;
+  interestRate: number;
+  dividendYield: number;
+  volatility: number;
+}
+
+export interface ImpliedVolatilityParams {
+  type: "call" | "put";
+  price: number;
+  S: number;
+  K: number;
+  T: number;
+  r: number;
+  q: number;
+  model?: PricingModel;
+  exercise?: ExerciseStyle;
 }
 
 export interface CalculatorResponse {
-  task: "greeksResult" | "dataResult" | "3dDataResult" | "portfolioResult";
+  id: number;
+  task:
+    | "greeksResult"
+    | "dataResult"
+    | "3dDataResult"
+    | "portfolioResult"
+    | "boundaryResult"
+    | "impliedVolatilityResult"
+    | "scenarioResult"
+    | "monteCarloResult"
+    | "framesResult"
+    | "hedgeResult"
+    | "hedgeSimulationResult"
+    | "cancelled"
+    | "error";
   result?: Greeks;
+  // Message of the exception that ended an "error" response
+  error?: string;
+  impliedVolatility?: ImpliedVolatilityResult;
+  monteCarlo?: MonteCarloResult;
+  animation?: AnimationResult;
+  hedge?: HedgeProposal;
+  hedgeSimulation?: HedgeSimulationResult;
   data?: any[];
   results?: any[];
 }
@@ -90,6 +446,8 @@ export interface CalculatorResponse {
 export interface ChartDataPoint {
   parameter: number;
   value: number;
+  // Values of the pinned comparison series, in pin order
+  series?: number[];
 }
 
 export interface SurfaceDataPoint {
@@ -105,12 +463,91 @@ export interface PortfolioDataPoint {
   theta: number;
   vega: number;
   rho: number;
+  vanna: number;
+  volga: number;
+  charm: number;
+  speed: number;
+  color: number;
+  zomma: number;
   value: number;
+  pnl: number;
+  expiryPnl: number;
 }
 
+export type PortfolioTotals = Omit<
+  PortfolioDataPoint,
+  "parameter" | "expiryPnl"
+>;
+
+export type ScenarioResult = ScenarioShock & PortfolioTotals;
+
+export type ScenarioMetric =
+  "pnl" | "value" | "delta" | "gamma" | "theta" | "vega";
+
 export interface PortfolioOption extends OptionParams {
   position: "long" | "short";
   quantity: number;
+  entryPrice: number;
+  // ISO date; when set, T is recomputed from the valuation date
+  expiry?: string;
+}
+
+export interface StrategyLeg {
+  type: "call" | "put";
+  position: "long" | "short";
+  // Strike offset from the centre strike, in multiples of the width
+  strikeOffset: number;
+  // Quantity as a multiple of the strategy quantity
+  ratio: number;
+  // Expiry as a multiple of the base time to expiry
+  expiryScale: number;
+}
+
+export interface StrategyTemplate {
+  id: string;
+  name: string;
+  legs: StrategyLeg[];
+}
+
+export interface StrategyParams {
+  center: number;
+  width: number;
+  quantity: number;
+  S: number;
+  T: number;
+  r: number;
+  q: number;
+  // In the model's own units: a normal vol under Bachelier
+  sigma: number;
+  model: PricingModel;
+}
+
+export interface NamedPortfolio {
+  id: string;
+  name: string;
+  options: PortfolioOption[];
+  updatedAt: number;
+}
+
+export interface WorkspaceStore {
+  version: number;
+  activeId: string;
+  portfolios: NamedPortfolio[];
+}
+
+export interface PayoffLeg {
+  type: "call" | "put";
+  position: string;
+  quantity: number;
+  K: number;
+  entryPrice?: number;
+  exotic?: ExoticTerms;
+}
+
+export interface PayoffSummary {
+  breakEvens: number[];
+  maxGain: number | null;
+  maxLoss: number | null;
 }
 
 export interface Surface3DProps {
@@ -118,6 +555,9 @@ export interface Surface3DProps {
   xLabel: string;
   yLabel: string;
   zLabel: string;
+  greek: keyof Greeks | "impliedVolatility";
+  // Fixes the z axis, e.g. so animation frames share one scale
+  zRange?: [number, number];
 }
 
 export interface Greeks {
@@ -127,6 +567,56 @@ export interface Greeks {
   vega: number;
   rho: number;
   price: number;
+  vanna: number;
+  volga: number;
+  charm: number;
+  speed: number;
+  color: number;
+  zomma: number;
+}
+
+export type ImpliedVolatilityStatus =
+  | "ok"
+  | "belowIntrinsic"
+  | "aboveUpperBound"
+  | "noConvergence"
+  | "invalidInput";
+
+export interface ImpliedVolatilityResult {
+  sigma: number;
+  status: ImpliedVolatilityStatus;
+}
+
+export type ChainField =
+  "strike" | "expiry" | "type" | "bid" | "ask" | "iv" | "openInterest";
+
+// Source column for each chain field; an empty string leaves it unmapped
+export type ChainColumnMapping = Record<ChainField, string>;
+
+export type ExpiryUnit = "years" | "days" | "date";
+
+export interface ChainRow {
+  type: "call" | "put";
+  strike: number;
+  expiry: number;
+  // ISO date when the chain gives dated expiries
+  expiryDate: string | null;
+  bid: number | null;
+  ask: number | null;
+  mid: number | null;
+  iv: number | null;
+  ivSource: "imported" | "mid" | null;
+  openInterest: number | null;
+}
+
+export interface ChainImportError {
+  line: number;
+  message: string;
+}
+
+export interface ChainImportResult {
+  rows: ChainRow[];
+  errors: ChainImportError[];
 }
 
 export interface WasmExports extends WebAssembly.Exports {
@@ -137,8 +627,43 @@ export interface WasmExports extends WebAssembly.Exports {
     K: number,
     T: number,
     r: number,
+    q: number,
     sigma: number
   ) => number;
+  impliedVolatility: (
+    isCall: number,
+    price: number,
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number
+  ) => number;
+  calculateAmericanGreeks: (
+    isCall: number,
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number,
+    sigma: number,
+    steps: number
+  ) => number;
+  getBatchInput: () => number;
+  getBatchOutput: () => number;
+  getBatchCapacity: () => number;
+  calculateGreeksBatch: (count: number, steps: number) => number;
+  getPathOutput: () => number;
+  getPathCapacity: () => number;
+  simulateTerminalPrices: (
+    S: number,
+    r: number,
+    q: number,
+    sigma: number,
+    T: number,
+    count: number,
+    seed: number
+  ) => number;
 }
 
 export interface WasmModule {
@@ -148,8 +673,43 @@ export interface WasmModule {
     K: number,
     T: number,
     r: number,
+    q: number,
+    sigma: number,
+    model?: PricingModel
+  ) => Greeks;
+  impliedVolatility: (
+    type: "call" | "put",
+    price: number,
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number
+  ) => ImpliedVolatilityResult;
+  calculateAmericanGreeks: (
+    type: "call" | "put",
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number,
     sigma: number
   ) => Greeks;
+  calculateGreeksBatch: (points: OptionParams[]) => Greeks[];
+  // One Greek per point, for sweeps that never read the rest
+  calculateGreekBatch: (
+    points: OptionParams[],
+    greek: keyof Greeks
+  ) => Float64Array;
+  simulateTerminalPrices: (
+    S: number,
+    r: number,
+    q: number,
+    sigma: number,
+    T: number,
+    count: number,
+    seed: number
+  ) => Float64Array;
 }
 
 export interface OptionContractProps {
@@ -161,4 +721,6 @@ export interface OptionContractProps {
     value: any
   ) => void;
   removeOption: (index: number) => void;
+  // Why the leg is left out of pricing, if it is
+  warning?: string | null;
 }
@@ -0,0 +1,81 @@
+// urlState.test.ts
+import { describe, expect, it } from "vitest";
+import { decodeShareableState, encodeShareableState } from "./urlState";
+import { DEFAULT_EXOTIC_TERMS } from "./exotics";
+import { ShareableState } from "./types";
+
+const bachelierState: ShareableState = {
+  visualizationMode: "2d",
+  twoDChartType: "greeks",
+  optionType: "put",
+  exerciseStyle: "european",
+  exotic: DEFAULT_EXOTIC_TERMS,
+  model: "bachelier",
+  greek: "delta",
+  parameter: "price",
+  xParameter: "price",
+  yParameter: "volatility",
+  portfolioParam: "price",
+  spotPrice: -0.4,
+  strikePrice: 0.25,
+  volatility: 0.8,
+  timeToExpiry: 1.5,
+  interestRate: -0.005,
+  dividendYield: 0,
+  volShift: 0,
+  daysForward: 0,
+  options: [
+    {
+      type: "call",
+      exercise: "european",
+      position: "long",
+      quantity: 1,
+      S: 0,
+      K: -0.5,
+      T: 1,
+      r: 0,
+      q: 0,
+      sigma: 0.9,
+      entryPrice: 0.3,
+      model: "bachelier",
+    },
+  ],
+  volSurface: { enabled: false, slices: [] },
+  scenarioDays: 0,
+  horizonDays: 30,
+  monteCarloPaths: 10000,
+  monteCarloSeed: 42,
+  confidence: 0.95,
+  valuationDate: "2026-03-02",
+};
+
+describe("shareable state", () => {
+  it("round-trips a negative-rate Bachelier state", () => {
+    expect(decodeShareableState(encodeShareableState(bachelierState))).toEqual(
+      bachelierState
+    );
+  });
+
+  it("drops a negative rate under a lognormal model", () => {
+    const decoded = decodeShareableState(
+      encodeShareableState({ ...bachelierState, model: "blackScholes" })
+    );
+    expect(decoded.interestRate).toBeUndefined();
+  });
+
+  it("keeps expiries on the valuation date and past ten years", () => {
+    for (const timeToExpiry of [0, 30]) {
+      const decoded = decodeShareableState(
+        encodeShareableState({ ...bachelierState, timeToExpiry })
+      );
+      expect(decoded.timeToExpiry).toBe(timeToExpiry);
+    }
+  });
+
+  it("drops a valuation date that is not a calendar day", () => {
+    const decoded = decodeShareableState(
+      encodeShareableState({ ...bachelierState, valuationDate: "2026-02-30" })
+    );
+    expect(decoded.valuationDate).toBeUndefined();
+  });
+});
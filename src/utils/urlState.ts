@@ -0,0 +1,349 @@
+// urlState.ts
+import { parseIsoDate } from "./dayCount";
+import { MODEL_LABELS, MODEL_LIMITS } from "./pricingModels";
+import { isExoticTerms } from "./storage";
+import {
+  BarrierType,
+  ExerciseStyle,
+  ExoticTerms,
+  Greeks,
+  PortfolioAxis,
+  PayoffStyle,
+  PortfolioOption,
+  PricingModel,
+  ShareableState,
+  SviSlice,
+  ThreeDRanges,
+  TwoDChartType,
+  TwoDParameter,
+  VisualizationMode,
+  VolSurface,
+} from "./types";
+
+// Bump when the compact layout changes; links with another version are ignored
+const URL_STATE_VERSION = 1;
+const URL_STATE_PARAM = "s";
+
+const VISUALIZATION_MODES: VisualizationMode[] = [
+  "2d",
+  "3d",
+  "portfolio",
+  "volSurface",
+  "scenarios",
+];
+const TWO_D_CHART_TYPES: TwoDChartType[] = ["greeks", "boundary"];
+const OPTION_TYPES: Array<"call" | "put"> = ["call", "put"];
+const EXERCISE_STYLES: ExerciseStyle[] = ["european", "american"];
+const PRICING_MODELS = Object.keys(MODEL_LABELS) as PricingModel[];
+const GREEKS: Array<keyof Greeks> = [
+  "delta",
+  "gamma",
+  "theta",
+  "vega",
+  "rho",
+  "price",
+  "vanna",
+  "volga",
+  "charm",
+  "speed",
+  "color",
+  "zomma",
+];
+const TWO_D_PARAMETERS: TwoDParameter[] = [
+  "price",
+  "time",
+  "volatility",
+  "interest",
+  "dividend",
+  "moneyness",
+];
+const THREE_D_PARAMETERS: Array<keyof ThreeDRanges> = [
+  "price",
+  "strike",
+  "time",
+  "volatility",
+  "interest",
+  "dividend",
+];
+const PORTFOLIO_AXES: PortfolioAxis[] = [
+  "price",
+  "elapsed",
+  "volShift",
+  "interest",
+  "dividend",
+];
+
+// payoff, cash payout, barrier type, barrier level, fixings
+type CompactExotic = [PayoffStyle, number, BarrierType, number, number];
+
+// Compact layout: short keys, legs and slices as positional arrays
+interface CompactState {
+  m: VisualizationMode;
+  c: TwoDChartType;
+  o: "call" | "put";
+  e: ExerciseStyle;
+  t: CompactExotic;
+  k: PricingModel;
+  g: keyof Greeks;
+  p: TwoDParameter;
+  x: keyof ThreeDRanges;
+  y: keyof ThreeDRanges;
+  a: PortfolioAxis;
+  // spot, strike, vol, time, rate, dividend yield
+  n: number[];
+  // vol shift, days forward, scenario days
+  s: number[];
+  // type, exercise, position, quantity, K, T, sigma, q, entry price, then an
+  // optional expiry date, exotic terms and pricing model (null when absent
+  // but a later field is present)
+  l: Array<
+    [
+      string,
+      string,
+      string,
+      number,
+      number,
+      number,
+      number,
+      number,
+      number,
+      (string | null)?,
+      (CompactExotic | null)?,
+      PricingModel?,
+    ]
+  >;
+  // enabled flag, then T, a, b, rho, m, sigma per slice
+  u: [number, number[][]];
+  // horizon days, paths, seed, confidence
+  h: number[];
+  // ISO valuation date that leg expiries are measured from
+  v: string;
+}
+
+const round = (value: number) => Number(value.toPrecision(6));
+
+const oneOf = <T>(value: unknown, allowed: readonly T[]): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+const numberIn = (
+  value: unknown,
+  min: number,
+  max: number
+): number | undefined =>
+  typeof value === "number" && value >= min && value <= max ? value : undefined;
+
+const encodeExotic = (terms: ExoticTerms): CompactExotic => [
+  terms.payoff,
+  round(terms.cashPayout),
+  terms.barrierType,
+  round(terms.barrier),
+  terms.fixings,
+];
+
+const decodeExotic = (value: unknown): ExoticTerms | undefined => {
+  if (!Array.isArray(value) || value.length !== 5) return undefined;
+  const [payoff, cashPayout, barrierType, barrier, fixings] = value;
+  const terms = { payoff, cashPayout, barrierType, barrier, fixings };
+  return isExoticTerms(terms) ? terms : undefined;
+};
+
+const toBase64Url = (text: string) =>
+  btoa(text).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (text: string) =>
+  atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+
+export const encodeShareableState = (state: ShareableState): string => {
+  const compact: CompactState = {
+    m: state.visualizationMode,
+    c: state.twoDChartType,
+    o: state.optionType,
+    e: state.exerciseStyle,
+    t: encodeExotic(state.exotic),
+    k: state.model,
+    g: state.greek,
+    p: state.parameter,
+    x: state.xParameter,
+    y: state.yParameter,
+    a: state.portfolioParam,
+    n: [
+      state.spotPrice,
+      state.strikePrice,
+      state.volatility,
+      state.timeToExpiry,
+      state.interestRate,
+      state.dividendYield,
+    ].map(round),
+    s: [state.volShift, state.daysForward, state.scenarioDays].map(round),
+    l: state.options.map((option) => {
+      const leg: CompactState["l"][number] = [
+        option.type,
+        option.exercise ?? "european",
+        option.position,
+        option.quantity,
+        round(option.K),
+        round(option.T),
+        round(option.sigma),
+        round(option.q ?? 0),
+        round(option.entryPrice ?? 0),
+      ];
+      if (option.expiry || option.exotic || option.model) {
+        leg.push(option.expiry ?? null);
+      }
+      if (option.exotic || option.model) {
+        leg.push(option.exotic ? encodeExotic(option.exotic) : null);
+      }
+      if (option.model) leg.push(option.model);
+      return leg;
+    }),
+    u: [
+      state.volSurface.enabled ? 1 : 0,
+      state.volSurface.slices.map(({ T, a, b, rho, m, sigma }) =>
+        [T, a, b, rho, m, sigma].map(round)
+      ),
+    ],
+    h: [
+      state.horizonDays,
+      state.monteCarloPaths,
+      state.monteCarloSeed,
+      state.confidence,
+    ],
+    v: state.valuationDate,
+  };
+  return `${URL_STATE_VERSION}.${toBase64Url(JSON.stringify(compact))}`;
+};
+
+const decodeLeg = (value: unknown): PortfolioOption | undefined => {
+  if (!Array.isArray(value) || value.length < 9 || value.length > 12) {
+    return undefined;
+  }
+  const [type, exercise, position, quantity, K, T, sigma, q, entryPrice] =
+    value;
+  const expiry = value[9] ?? undefined;
+  if (expiry !== undefined && !parseIsoDate(String(expiry))) return undefined;
+  const exotic = value[10] != null ? decodeExotic(value[10]) : undefined;
+  if (value[10] != null && !exotic) return undefined;
+  const model =
+    value.length > 11 ? oneOf(value[11], PRICING_MODELS) : undefined;
+  if (value.length > 11 && !model) return undefined;
+  // Normal vols are in price units and normal strikes may be negative
+  const isNormal = model === "bachelier";
+  const leg = {
+    type: oneOf(type, OPTION_TYPES),
+    exercise: oneOf(exercise, EXERCISE_STYLES),
+    position: oneOf(position, ["long", "short"] as const),
+    quantity: numberIn(quantity, 1, 1e6),
+    K: numberIn(K, isNormal ? -1e6 : 0.01, 1e6),
+    T: numberIn(T, 0, 50),
+    sigma: numberIn(sigma, 0.001, isNormal ? 1e4 : 5),
+    q: numberIn(q, 0, 1),
+    entryPrice: numberIn(entryPrice, 0, 1e6),
+  };
+  if (Object.values(leg).some((field) => field === undefined)) {
+    return undefined;
+  }
+  // Spot and rate are filled in from the global inputs when pricing
+  return {
+    ...(leg as Omit<PortfolioOption, "S" | "r">),
+    S: 0,
+    r: 0,
+    ...(expiry !== undefined && { expiry: String(expiry) }),
+    ...(exotic && { exotic }),
+    ...(model && { model }),
+  };
+};
+
+const decodeVolSurface = (value: unknown): VolSurface | undefined => {
+  if (!Array.isArray(value) || value.length !== 2) return undefined;
+  const [enabled, slices] = value;
+  if (!Array.isArray(slices)) return undefined;
+  const decoded: SviSlice[] = [];
+  for (const slice of slices) {
+    if (
+      !Array.isArray(slice) ||
+      slice.length !== 6 ||
+      !slice.every((field) => typeof field === "number" && isFinite(field))
+    ) {
+      return undefined;
+    }
+    const [T, a, b, rho, m, sigma] = slice;
+    decoded.push({ T, a, b, rho, m, sigma });
+  }
+  return { enabled: enabled === 1, slices: decoded };
+};
+
+// Decodes a shared state string. Fields that are missing or fail validation
+// are left out so the caller keeps its defaults; an unknown version or a
+// corrupt payload yields an empty object.
+export const decodeShareableState = (
+  encoded: string
+): Partial<ShareableState> => {
+  const separator = encoded.indexOf(".");
+  if (Number(encoded.slice(0, separator)) !== URL_STATE_VERSION) return {};
+
+  let compact: Partial<CompactState>;
+  try {
+    compact = JSON.parse(fromBase64Url(encoded.slice(separator + 1)));
+  } catch {
+    return {};
+  }
+  if (!compact || typeof compact !== "object") return {};
+
+  const n = Array.isArray(compact.n) ? compact.n : [];
+  const s = Array.isArray(compact.s) ? compact.s : [];
+  const h = Array.isArray(compact.h) ? compact.h : [];
+  const legs = Array.isArray(compact.l) ? compact.l.map(decodeLeg) : undefined;
+  const model = oneOf(compact.k, PRICING_MODELS);
+  const limits = MODEL_LIMITS[model ?? "blackScholes"];
+
+  const state: Partial<ShareableState> = {
+    visualizationMode: oneOf(compact.m, VISUALIZATION_MODES),
+    twoDChartType: oneOf(compact.c, TWO_D_CHART_TYPES),
+    optionType: oneOf(compact.o, OPTION_TYPES),
+    exerciseStyle: oneOf(compact.e, EXERCISE_STYLES),
+    exotic: decodeExotic(compact.t),
+    model,
+    greek: oneOf(compact.g, GREEKS),
+    parameter: oneOf(compact.p, TWO_D_PARAMETERS),
+    xParameter: oneOf(compact.x, THREE_D_PARAMETERS),
+    yParameter: oneOf(compact.y, THREE_D_PARAMETERS),
+    portfolioParam: oneOf(compact.a, PORTFOLIO_AXES),
+    spotPrice: numberIn(n[0], limits.minPrice, limits.maxPrice),
+    strikePrice: numberIn(n[1], limits.minPrice, limits.maxPrice),
+    volatility: numberIn(n[2], limits.minVol, limits.maxVol),
+    // Same range as leg expiries; dated expiries can land on the valuation date
+    timeToExpiry: numberIn(n[3], 0, 50),
+    interestRate: numberIn(n[4], limits.minRate, limits.maxRate),
+    dividendYield: numberIn(n[5], 0, 0.2),
+    volShift: numberIn(s[0], -1, 1),
+    daysForward: numberIn(s[1], 0, 3650),
+    scenarioDays: numberIn(s[2], 0, 3650),
+    options:
+      legs && legs.every((leg) => leg !== undefined)
+        ? (legs as PortfolioOption[])
+        : undefined,
+    volSurface: decodeVolSurface(compact.u),
+    horizonDays: numberIn(h[0], 1, 3650),
+    monteCarloPaths: numberIn(h[1], 1000, 100000),
+    monteCarloSeed: Number.isInteger(h[2]) ? h[2] : undefined,
+    confidence: oneOf(h[3], [0.9, 0.95, 0.99]),
+    valuationDate:
+      typeof compact.v === "string" && parseIsoDate(compact.v)
+        ? compact.v
+        : undefined,
+  };
+
+  return Object.fromEntries(
+    Object.entries(state).filter(([, value]) => value !== undefined)
+  ) as Partial<ShareableState>;
+};
+
+export const readShareableState = (hash: string): Partial<ShareableState> => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(
+    URL_STATE_PARAM
+  );
+  return encoded ? decodeShareableState(encoded) : {};
+};
+
+export const buildShareableHash = (state: ShareableState): string =>
+  `#${URL_STATE_PARAM}=${encodeShareableState(state)}`;
@@ -0,0 +1,70 @@
+// volSurface.ts
+import { SviSlice, VolSurface } from "./types";
+
+export const DEFAULT_VOL_SURFACE: VolSurface = {
+  enabled: false,
+  slices: [
+    { T: 0.25, a: 0.008, b: 0.06, rho: -0.5, m: 0, sigma: 0.1 },
+    { T: 0.5, a: 0.015, b: 0.09, rho: -0.5, m: 0, sigma: 0.12 },
+    { T: 1, a: 0.03, b: 0.12, rho: -0.5, m: 0, sigma: 0.15 },
+    { T: 2, a: 0.07, b: 0.15, rho: -0.4, m: 0, sigma: 0.2 },
+  ],
+};
+
+export const sviTotalVariance = (
+  { a, b, rho, m, sigma }: SviSlice,
+  k: number
+): number => a + b * (rho * (k - m) + Math.sqrt((k - m) ** 2 + sigma ** 2));
+
+// Returns a description of the first constraint the slice breaks, or null
+// when it yields a non-negative total variance everywhere.
+export const validateSviSlice = ({
+  T,
+  a,
+  b,
+  rho,
+  sigma,
+}: SviSlice): string | null => {
+  if (!(T > 0)) return "Expiry must be positive";
+  if (!(b >= 0)) return "b must be non-negative";
+  if (!(Math.abs(rho) < 1)) return "rho must be between -1 and 1";
+  if (!(sigma > 0)) return "sigma must be positive";
+  if (a + b * sigma * Math.sqrt(1 - rho * rho) < 0) {
+    return "Total variance goes negative";
+  }
+  return null;
+};
+
+// Implied vol for strike K and expiry T. Slices are interpolated linearly in
+// total variance at fixed log-moneyness, with flat vol beyond the first and
+// last expiries. Falls back to the flat vol when no slice is usable.
+export const surfaceVolatility = (
+  surface: VolSurface,
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  q: number,
+  fallback: number
+): number => {
+  const slices = surface.slices
+    .filter((slice) => validateSviSlice(slice) === null)
+    .sort((a, b) => a.T - b.T);
+  if (slices.length === 0 || S <= 0 || K <= 0) return fallback;
+
+  const k = Math.log(K / (S * Math.exp((r - q) * Math.max(T, 0))));
+  const sliceVol = (slice: SviSlice) =>
+    Math.sqrt(Math.max(sviTotalVariance(slice, k), 0) / slice.T);
+
+  if (T <= slices[0].T) return sliceVol(slices[0]);
+  const last = slices[slices.length - 1];
+  if (T >= last.T) return sliceVol(last);
+
+  const upper = slices.findIndex((slice) => slice.T >= T);
+  const lo = slices[upper - 1];
+  const hi = slices[upper];
+  const weight = (T - lo.T) / (hi.T - lo.T);
+  const variance =
+    (1 - weight) * sviTotalVariance(lo, k) + weight * sviTotalVariance(hi, k);
+  return Math.sqrt(Math.max(variance, 0) / T);
+};
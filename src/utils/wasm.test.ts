@@ -0,0 +1,236 @@
+// wasm.test.ts
+// Holds the compiled C engine to the JS engine, loading the same .wasm the
+// app ships. options_calc_indv.c is not compiled into any module, so it has
+// no artifact to check. Run with `npm test`.
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  createUniformGenerator,
+  jsCalculateAmericanGreeks,
+  jsCalculateGreeks,
+  jsCalculateGreeksBatch,
+  jsImpliedVolatility,
+  jsSimulateTerminalPrices,
+} from "./calculations";
+import { instantiateWasm } from "./wasm";
+import { Greeks, OptionParams, PricingModel } from "./types";
+
+const wasmModule = await instantiateWasm(
+  readFileSync(new URL("../../public/wasm/options_calc.wasm", import.meta.url))
+);
+
+const MODELS: PricingModel[] = ["blackScholes", "black76", "bachelier"];
+
+const expectSameGreeks = (actual: Greeks, expected: Greeks, label: string) =>
+  (Object.keys(expected) as Array<keyof Greeks>).forEach((greek) =>
+    expect(
+      Math.abs(actual[greek] - expected[greek]),
+      `${greek} for ${label}`
+    ).toBeLessThanOrEqual(1e-9 * Math.max(1, Math.abs(expected[greek])))
+  );
+
+// A seeded grid from deep out of the money to deep in, short-dated to long,
+// so failures reproduce
+const randomPoints = (count: number, seed: number): OptionParams[] => {
+  const next = createUniformGenerator(seed);
+  const between = (min: number, max: number) => min + (max - min) * next();
+  return Array.from({ length: count }, () => {
+    const model = MODELS[Math.floor(next() * MODELS.length)];
+    const isNormal = model === "bachelier";
+    const K = isNormal ? between(-50, 150) : between(20, 300);
+    return {
+      type: next() < 0.5 ? "call" : "put",
+      exercise: "european",
+      model,
+      S: isNormal ? K + between(-60, 60) : K * Math.exp(between(-1, 1)),
+      K,
+      T: between(0.01, 5),
+      r: between(-0.01, 0.1),
+      q: model === "blackScholes" ? between(0, 0.08) : 0,
+      sigma: isNormal ? between(1, 60) : between(0.02, 1.5),
+    };
+  });
+};
+
+describe("JS and WASM agreement", () => {
+  it("matches on a randomized European grid", () => {
+    randomPoints(5000, 42).forEach((point) => {
+      const { type, S, K, T, r, q, sigma, model } = point;
+      expectSameGreeks(
+        wasmModule.calculateGreeks(type, S, K, T, r, q, sigma, model),
+        jsCalculateGreeks(type, S, K, T, r, q, sigma, model),
+        JSON.stringify(point)
+      );
+    });
+  });
+
+  it("matches through the batch interface, including American points", () => {
+    const points = randomPoints(400, 7).map((point, i) =>
+      i % 8 === 0 && point.model === "blackScholes"
+        ? { ...point, exercise: "american" as const, T: Math.min(point.T, 2) }
+        : point
+    );
+    const expected = jsCalculateGreeksBatch(points);
+    wasmModule
+      .calculateGreeksBatch(points)
+      .forEach((greeks, i) =>
+        expectSameGreeks(greeks, expected[i], JSON.stringify(points[i]))
+      );
+  });
+
+  it("reads single Greeks out of the batch", () => {
+    const points = randomPoints(300, 13);
+    const expected = jsCalculateGreeksBatch(points);
+    (["price", "theta", "zomma"] as const).forEach((greek) =>
+      wasmModule
+        .calculateGreekBatch(points, greek)
+        .forEach((value, i) => expect(value).toBeCloseTo(expected[i][greek], 9))
+    );
+  });
+
+  it("matches on American Greeks from the binomial tree", () => {
+    [
+      ["put", 36, 40, 1, 0.06, 0, 0.2],
+      ["put", 100, 110, 0.5, 0.03, 0.01, 0.35],
+      ["call", 120, 100, 2, 0.02, 0.06, 0.25],
+    ].forEach((args) => {
+      const [type, S, K, T, r, q, sigma] = args as [
+        "call" | "put",
+        ...number[],
+      ];
+      expectSameGreeks(
+        wasmModule.calculateAmericanGreeks(type, S, K, T, r, q, sigma),
+        jsCalculateAmericanGreeks(type, S, K, T, r, q, sigma),
+        args.join(", ")
+      );
+    });
+  });
+
+  it("solves the same implied volatility", () => {
+    randomPoints(300, 11)
+      .filter(({ model }) => model === "blackScholes")
+      .forEach(({ type, S, K, T, r, q, sigma }) => {
+        const { price } = jsCalculateGreeks(type, S, K, T, r, q, sigma);
+        const js = jsImpliedVolatility(type, price, S, K, T, r, q);
+        const wasm = wasmModule.impliedVolatility(type, price, S, K, T, r, q);
+        expect(wasm.status).toBe(js.status);
+        if (js.status === "ok") expect(wasm.sigma).toBeCloseTo(js.sigma, 8);
+      });
+  });
+
+  it("draws the same terminal prices for a seed", () => {
+    const js = jsSimulateTerminalPrices(100, 0.05, 0.01, 0.3, 1, 1000, 99);
+    const wasm = wasmModule.simulateTerminalPrices(
+      100,
+      0.05,
+      0.01,
+      0.3,
+      1,
+      1000,
+      99
+    );
+    expect(Array.from(wasm)).toEqual(
+      Array.from(js).map((price) => expect.closeTo(price, 9))
+    );
+  });
+});
+
+describe("WASM edge cases", () => {
+  MODELS.forEach((model) =>
+    it(`${model} keeps put-call parity`, () => {
+      const [S, K, T, r, q, sigma] =
+        model === "bachelier"
+          ? [-0.4, 0.25, 1.5, 0.01, 0, 0.8]
+          : [95, 100, 1.5, 0.04, 0.02, 0.3];
+      const call = wasmModule.calculateGreeks(
+        "call",
+        S,
+        K,
+        T,
+        r,
+        q,
+        sigma,
+        model
+      );
+      const put = wasmModule.calculateGreeks(
+        "put",
+        S,
+        K,
+        T,
+        r,
+        q,
+        sigma,
+        model
+      );
+      const carry = model === "blackScholes" ? q : r;
+      expect(call.price - put.price).toBeCloseTo(
+        S * Math.exp(-carry * T) - K * Math.exp(-r * T),
+        8
+      );
+    })
+  );
+
+  it("agrees with JS on degenerate inputs and stays finite", () => {
+    const points: OptionParams[] = [];
+    for (const model of MODELS) {
+      // The binomial tree only runs under Black-Scholes
+      const exercises =
+        model === "blackScholes"
+          ? (["european", "american"] as const)
+          : (["european"] as const);
+      for (const exercise of exercises) {
+        for (const type of ["call", "put"] as const) {
+          for (const S of [-20, 0, 100]) {
+            for (const K of [-10, 0, 100]) {
+              for (const T of [-0.5, 0, 1e-30, 1]) {
+                for (const sigma of [0, 1e-12, 0.2]) {
+                  points.push({
+                    type,
+                    exercise,
+                    model,
+                    S,
+                    K,
+                    T,
+                    r: 0.05,
+                    q: 0.02,
+                    sigma,
+                  });
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+
+    const expected = jsCalculateGreeksBatch(points);
+    wasmModule.calculateGreeksBatch(points).forEach((greeks, i) => {
+      const label = JSON.stringify(points[i]);
+      Object.values(greeks).forEach((value) =>
+        expect(Number.isFinite(value), label).toBe(true)
+      );
+      expectSameGreeks(greeks, expected[i], label);
+    });
+  });
+
+  // The expiry branch must overwrite every Greek, not just price and delta,
+  // since the buffer still holds the previous call's values
+  it("returns flat Greeks at expiry after a live call", () => {
+    wasmModule.calculateGreeks("call", 100, 100, 1, 0.05, 0, 0.2);
+    const expired = wasmModule.calculateGreeks(
+      "call",
+      110,
+      100,
+      0,
+      0.05,
+      0,
+      0.2
+    );
+    expect(expired.price).toBeCloseTo(10, 12);
+    expect(expired.delta).toBe(1);
+    expect(expired.gamma).toBe(0);
+    expect(expired.vega).toBe(0);
+    expect(expired.theta).toBe(0);
+    expect(expired.rho).toBe(0);
+  });
+});
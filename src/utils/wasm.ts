@@ -1,69 +1,312 @@
 // wasm.ts
-import { Greeks, WasmModule, WasmExports } from "./types";
+import {
+  Greeks,
+  OptionParams,
+  PricingModel,
+  ImpliedVolatilityResult,
+  ImpliedVolatilityStatus,
+  WasmModule,
+  WasmExports,
+} from "./types";
+import {
+  AMERICAN_TREE_STEPS,
+  jsCalculateAmericanGreeks,
+  jsCalculateGreekBatch,
+  jsCalculateGreeks,
+  jsCalculateGreeksBatch,
+  jsImpliedVolatility,
+  jsSimulateTerminalPrices,
+} from "./calculations";
 
-export const initWasm = async (): Promise<WasmModule> => {
-  try {
-    const response = await fetch("wasm/options_calc.wasm");
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch options-calc.wasm: ${response.statusText}`
+// Layout of the C greeks and batch buffers, see options_calc.c
+const GREEKS_COUNT = 12;
+const BATCH_INPUT_STRIDE = 9;
+
+// Model codes understood by the C engine
+const MODEL_CODES: Record<PricingModel, number> = {
+  blackScholes: 0,
+  black76: 1,
+  bachelier: 2,
+};
+const BATCH_OUTPUT_STRIDE = GREEKS_COUNT;
+
+// Position of each Greek within a C greeks record
+const GREEK_OFFSETS: Record<keyof Greeks, number> = {
+  delta: 0,
+  gamma: 1,
+  theta: 2,
+  vega: 3,
+  rho: 4,
+  price: 5,
+  vanna: 6,
+  volga: 7,
+  charm: 8,
+  speed: 9,
+  color: 10,
+  zomma: 11,
+};
+
+const readGreeksAt = (results: Float64Array, offset: number): Greeks => ({
+  price: results[offset + 5],
+  delta: results[offset],
+  gamma: results[offset + 1],
+  theta: results[offset + 2],
+  vega: results[offset + 3],
+  rho: results[offset + 4],
+  vanna: results[offset + 6],
+  volga: results[offset + 7],
+  charm: results[offset + 8],
+  speed: results[offset + 9],
+  color: results[offset + 10],
+  zomma: results[offset + 11],
+});
+
+// Negative return codes from the C impliedVolatility export
+const IV_FAILURE_CODES: Record<number, ImpliedVolatilityStatus> = {
+  [-1]: "invalidInput",
+  [-2]: "belowIntrinsic",
+  [-3]: "aboveUpperBound",
+  [-4]: "noConvergence",
+};
+
+export const instantiateWasm = async (
+  buffer: BufferSource
+): Promise<WasmModule> => {
+  const imports = {
+    env: {
+      memory: new WebAssembly.Memory({ initial: 256, maximum: 256 }),
+      __memory_base: 0,
+      __table_base: 0,
+    },
+  };
+
+  const module = await WebAssembly.instantiate(buffer, imports);
+  const exports = module.instance.exports as WasmExports;
+
+  const calculateGreeksRaw = exports.calculateGreeks as (
+    isCall: number,
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number,
+    sigma: number,
+    model: number
+  ) => number;
+
+  const impliedVolatilityRaw = exports.impliedVolatility as (
+    isCall: number,
+    price: number,
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number
+  ) => number;
+
+  const calculateAmericanGreeksRaw = exports.calculateAmericanGreeks as (
+    isCall: number,
+    S: number,
+    K: number,
+    T: number,
+    r: number,
+    q: number,
+    sigma: number,
+    steps: number
+  ) => number;
+
+  const readGreeks = (resultsPtr: number): Greeks =>
+    readGreeksAt(
+      new Float64Array(exports.memory.buffer, resultsPtr, GREEKS_COUNT),
+      0
+    );
+
+  const batchCapacity = exports.getBatchCapacity();
+  const batchInputPtr = exports.getBatchInput();
+  const batchOutputPtr = exports.getBatchOutput();
+  const pathCapacity = exports.getPathCapacity();
+  const pathOutputPtr = exports.getPathOutput();
+
+  // Views over the batch buffers are made once; they only need rebuilding if
+  // the memory grows and detaches its old buffer
+  let batchInput = new Float64Array(0);
+  let batchOutput = new Float64Array(0);
+  const batchViews = () => {
+    if (batchInput.buffer !== exports.memory.buffer) {
+      batchInput = new Float64Array(
+        exports.memory.buffer,
+        batchInputPtr,
+        batchCapacity * BATCH_INPUT_STRIDE
+      );
+      batchOutput = new Float64Array(
+        exports.memory.buffer,
+        batchOutputPtr,
+        batchCapacity * BATCH_OUTPUT_STRIDE
       );
     }
-    const buffer = await response.arrayBuffer();
+    return { input: batchInput, output: batchOutput };
+  };
 
-    const imports = {
-      env: {
-        memory: new WebAssembly.Memory({ initial: 256, maximum: 256 }),
-        __memory_base: 0,
-        __table_base: 0,
-      },
-    };
+  // Prices the points a buffer-full at a time, handing each chunk's output
+  // to read before the next chunk overwrites it
+  const runBatch = (
+    points: OptionParams[],
+    read: (output: Float64Array, start: number, count: number) => void
+  ) => {
+    const { input, output } = batchViews();
+
+    for (let start = 0; start < points.length; start += batchCapacity) {
+      const count = Math.min(batchCapacity, points.length - start);
+
+      for (let i = 0; i < count; i++) {
+        const point = points[start + i];
+        const offset = i * BATCH_INPUT_STRIDE;
+        input[offset] = point.type === "call" ? 1 : 0;
+        input[offset + 1] = point.exercise === "american" ? 1 : 0;
+        input[offset + 2] = point.S;
+        input[offset + 3] = point.K;
+        input[offset + 4] = point.T;
+        input[offset + 5] = point.r;
+        input[offset + 6] = point.q;
+        input[offset + 7] = point.sigma;
+        input[offset + 8] = MODEL_CODES[point.model ?? "blackScholes"];
+      }
 
-    const module = await WebAssembly.instantiate(buffer, imports);
-    const exports = module.instance.exports as WasmExports;
+      exports.calculateGreeksBatch(count, AMERICAN_TREE_STEPS);
+      read(output, start, count);
+    }
+  };
 
-    const calculateGreeksRaw = exports.calculateGreeks as (
-      isCall: number,
+  return {
+    calculateGreeks: (
+      type: "call" | "put",
       S: number,
       K: number,
       T: number,
       r: number,
+      q: number,
+      sigma: number,
+      model: PricingModel = "blackScholes"
+    ): Greeks => {
+      const isCall = type === "call" ? 1 : 0;
+      const resultsPtr = calculateGreeksRaw(
+        isCall,
+        S,
+        K,
+        T,
+        r,
+        q,
+        sigma,
+        MODEL_CODES[model]
+      );
+      return readGreeks(resultsPtr);
+    },
+    impliedVolatility: (
+      type: "call" | "put",
+      price: number,
+      S: number,
+      K: number,
+      T: number,
+      r: number,
+      q: number
+    ): ImpliedVolatilityResult => {
+      const isCall = type === "call" ? 1 : 0;
+      const sigma = impliedVolatilityRaw(isCall, price, S, K, T, r, q);
+      if (sigma < 0) {
+        return { sigma: NaN, status: IV_FAILURE_CODES[sigma] };
+      }
+      return { sigma, status: "ok" };
+    },
+    calculateAmericanGreeks: (
+      type: "call" | "put",
+      S: number,
+      K: number,
+      T: number,
+      r: number,
+      q: number,
       sigma: number
-    ) => number;
+    ): Greeks => {
+      const isCall = type === "call" ? 1 : 0;
+      const resultsPtr = calculateAmericanGreeksRaw(
+        isCall,
+        S,
+        K,
+        T,
+        r,
+        q,
+        sigma,
+        AMERICAN_TREE_STEPS
+      );
+      return readGreeks(resultsPtr);
+    },
+    calculateGreeksBatch: (points: OptionParams[]): Greeks[] => {
+      const greeks = new Array<Greeks>(points.length);
+      runBatch(points, (output, start, count) => {
+        for (let i = 0; i < count; i++) {
+          greeks[start + i] = readGreeksAt(output, i * BATCH_OUTPUT_STRIDE);
+        }
+      });
+      return greeks;
+    },
+    calculateGreekBatch: (
+      points: OptionParams[],
+      greek: keyof Greeks
+    ): Float64Array => {
+      const offset = GREEK_OFFSETS[greek];
+      const values = new Float64Array(points.length);
+      runBatch(points, (output, start, count) => {
+        for (let i = 0; i < count; i++) {
+          values[start + i] = output[i * BATCH_OUTPUT_STRIDE + offset];
+        }
+      });
+      return values;
+    },
+    simulateTerminalPrices: (
+      S: number,
+      r: number,
+      q: number,
+      sigma: number,
+      T: number,
+      count: number,
+      seed: number
+    ): Float64Array => {
+      // The C buffer holds a fixed number of paths; larger runs use the JS
+      // generator so the seed still reproduces one continuous stream
+      if (count > pathCapacity) {
+        return jsSimulateTerminalPrices(S, r, q, sigma, T, count, seed);
+      }
+      exports.simulateTerminalPrices(S, r, q, sigma, T, count, seed);
+      return new Float64Array(
+        exports.memory.buffer,
+        pathOutputPtr,
+        count
+      ).slice();
+    },
+  };
+};
 
-    return {
-      calculateGreeks: (
-        type: "call" | "put",
-        S: number,
-        K: number,
-        T: number,
-        r: number,
-        sigma: number
-      ): Greeks => {
-        const isCall = type === "call" ? 1 : 0;
-        const resultsPtr = calculateGreeksRaw(isCall, S, K, T, r, sigma);
-        const results = new Float64Array(exports.memory.buffer, resultsPtr, 6);
-        return {
-          price: results[5],
-          delta: results[0],
-          gamma: results[1],
-          theta: results[2],
-          vega: results[3],
-          rho: results[4],
-        };
-      },
-    };
+export const initWasm = async (): Promise<WasmModule> => {
+  try {
+    const response = await fetch(
+      `${import.meta.env.BASE_URL}wasm/options_calc.wasm`
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch options-calc.wasm: ${response.statusText}`
+      );
+    }
+    const buffer = await response.arrayBuffer();
+    return await instantiateWasm(buffer);
   } catch (error) {
+    // The JS engine gives the same numbers, only slower
     console.error("WebAssembly module failed to load:", error);
     return {
-      calculateGreeks: () => ({
-        delta: 0,
-        gamma: 0,
-        theta: 0,
-        vega: 0,
-        rho: 0,
-        price: 0,
-      }),
+      calculateGreeks: jsCalculateGreeks,
+      impliedVolatility: jsImpliedVolatility,
+      calculateAmericanGreeks: jsCalculateAmericanGreeks,
+      calculateGreeksBatch: jsCalculateGreeksBatch,
+      calculateGreekBatch: jsCalculateGreekBatch,
+      simulateTerminalPrices: jsSimulateTerminalPrices,
     };
   }
 };
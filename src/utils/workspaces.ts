@@ -0,0 +1,286 @@
+// workspaces.ts
+import { jsCalculateGreeks } from "./calculations";
+import { isPricingModel } from "./pricingModels";
+import { parseIsoDate } from "./dayCount";
+import { isExoticTerms, keepCorruptCopy, readStoredJson } from "./storage";
+import { NamedPortfolio, PortfolioOption, WorkspaceStore } from "./types";
+
+const WORKSPACE_KEY = "workspaces";
+const LEGACY_OPTIONS_KEY = "options";
+const LEGACY_PORTFOLIO_DATA_KEY = "portfolioData";
+const PORTFOLIO_FILE_FORMAT = "options-visualizer-portfolio";
+
+// Version 0 is the unversioned options array once kept under "options"
+export const WORKSPACE_VERSION = 1;
+
+const DEFAULT_OPTIONS: PortfolioOption[] = [
+  {
+    type: "call",
+    exercise: "european",
+    position: "long",
+    quantity: 1,
+    S: 100,
+    K: 100,
+    T: 1,
+    r: 0.05,
+    q: 0,
+    sigma: 0.2,
+    entryPrice: 10.45,
+  },
+];
+
+const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && isFinite(value);
+
+// Accepts legs saved by any earlier version, filling in fields that were added
+// later. Returns null when a required field is missing or out of range.
+export const sanitizeLeg = (value: unknown): PortfolioOption | null => {
+  if (!isRecord(value)) return null;
+  const { type, exercise, position, quantity, S, K, T, r, q, sigma } = value;
+  const { entryPrice, expiry, exotic, model } = value;
+  const pricingModel = isPricingModel(model) ? model : undefined;
+  // Bachelier legs may carry a negative strike
+  const minStrike = pricingModel === "bachelier" ? -Infinity : 0;
+
+  if (type !== "call" && type !== "put") return null;
+  if (position !== "long" && position !== "short") return null;
+  if (!isNumber(K) || K <= minStrike || !isNumber(T) || T < 0) return null;
+  if (!isNumber(sigma) || sigma <= 0) return null;
+
+  const leg = {
+    type,
+    exercise: exercise === "american" ? "american" : "european",
+    position,
+    quantity: isNumber(quantity) && quantity >= 1 ? Math.round(quantity) : 1,
+    S: isNumber(S) && S > 0 ? S : 100,
+    K,
+    T,
+    r: isNumber(r) ? r : 0.05,
+    q: isNumber(q) ? q : 0,
+    sigma,
+  } as const;
+  return {
+    ...leg,
+    entryPrice: isNumber(entryPrice)
+      ? entryPrice
+      : jsCalculateGreeks(type, leg.S, K, T, leg.r, leg.q, sigma, pricingModel)
+          .price,
+    ...(typeof expiry === "string" && parseIsoDate(expiry) && { expiry }),
+    ...(isExoticTerms(exotic) && { exotic }),
+    ...(pricingModel && { model: pricingModel }),
+  };
+};
+
+const keepValidLegs = (legs: unknown[]): PortfolioOption[] =>
+  legs.map(sanitizeLeg).filter((leg): leg is PortfolioOption => leg !== null);
+
+const sanitizeLegs = (value: unknown): PortfolioOption[] | null => {
+  if (!Array.isArray(value)) return null;
+  const legs = value.map(sanitizeLeg);
+  return legs.every((leg) => leg !== null) ? (legs as PortfolioOption[]) : null;
+};
+
+export const createPortfolio = (
+  name: string,
+  options: PortfolioOption[] = DEFAULT_OPTIONS
+): NamedPortfolio => ({
+  id: createId(),
+  name,
+  options,
+  updatedAt: Date.now(),
+});
+
+const createStore = (portfolios: NamedPortfolio[]): WorkspaceStore => ({
+  version: WORKSPACE_VERSION,
+  activeId: portfolios[0].id,
+  portfolios,
+});
+
+// Each migration upgrades a stored value by one version
+const MIGRATIONS: Record<number, (value: unknown) => unknown> = {
+  0: (legacyOptions) =>
+    createStore([
+      createPortfolio(
+        "Default",
+        Array.isArray(legacyOptions)
+          ? keepValidLegs(legacyOptions)
+          : DEFAULT_OPTIONS
+      ),
+    ]),
+};
+
+// Drops legs that fail validation one at a time, so a single bad leg cannot
+// cost the rest of the portfolio
+const sanitizePortfolio = (value: unknown): NamedPortfolio | null => {
+  if (!isRecord(value) || !Array.isArray(value.options)) return null;
+  const { id, name, options, updatedAt } = value;
+  if (typeof id !== "string" || typeof name !== "string") return null;
+  return {
+    id,
+    name,
+    options: keepValidLegs(options),
+    updatedAt: isNumber(updatedAt) ? updatedAt : Date.now(),
+  };
+};
+
+const isVersioned = (
+  value: unknown
+): value is Record<string, unknown> & { version: number } =>
+  isRecord(value) &&
+  isNumber(value.version) &&
+  value.version <= WORKSPACE_VERSION;
+
+const migrate = (value: unknown, fromVersion: number): unknown => {
+  let migrated = value;
+  for (let version = fromVersion; version < WORKSPACE_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
+
+// Loads the workspace store, upgrading older layouts and importing the legacy
+// single-portfolio key on first run. Portfolios and legs that fail validation
+// are dropped one at a time, with the raw value copied aside under a
+// ".corrupt" key; only an unreadable store falls back to a fresh one.
+export const loadWorkspaceStore = (): WorkspaceStore => {
+  const stored = readStoredJson<{ version: number } | null>(
+    WORKSPACE_KEY,
+    null,
+    isVersioned
+  );
+
+  let store: unknown;
+  if (stored) {
+    store = migrate(stored, stored.version);
+  } else {
+    const legacy = readStoredJson<unknown[] | null>(
+      LEGACY_OPTIONS_KEY,
+      null,
+      Array.isArray
+    );
+    if (legacy && !sanitizeLegs(legacy)) keepCorruptCopy(LEGACY_OPTIONS_KEY);
+    store = migrate(legacy ?? DEFAULT_OPTIONS, 0);
+  }
+
+  const rawPortfolios =
+    isRecord(store) && Array.isArray(store.portfolios) ? store.portfolios : [];
+  const portfolios = rawPortfolios
+    .map(sanitizePortfolio)
+    .filter((portfolio): portfolio is NamedPortfolio => portfolio !== null);
+  // Portfolios only line up by index when none were dropped
+  const isIntact =
+    portfolios.length === rawPortfolios.length &&
+    portfolios.every(
+      ({ options }, i) => options.length === rawPortfolios[i].options.length
+    );
+  if (stored && !isIntact) {
+    console.warn("Dropped invalid entries from the workspace store");
+    keepCorruptCopy(WORKSPACE_KEY);
+  }
+  if (portfolios.length === 0) {
+    return createStore([createPortfolio("Default")]);
+  }
+
+  const storedActiveId = isRecord(store) ? store.activeId : null;
+  const active =
+    portfolios.find(({ id }) => id === storedActiveId) ?? portfolios[0];
+  return { version: WORKSPACE_VERSION, activeId: active.id, portfolios };
+};
+
+export const saveWorkspaceStore = (store: WorkspaceStore) => {
+  localStorage.setItem(WORKSPACE_KEY, JSON.stringify(store));
+  // Superseded by the workspace store
+  localStorage.removeItem(LEGACY_OPTIONS_KEY);
+  localStorage.removeItem(LEGACY_PORTFOLIO_DATA_KEY);
+};
+
+export const getActivePortfolio = (store: WorkspaceStore): NamedPortfolio =>
+  store.portfolios.find(({ id }) => id === store.activeId) ??
+  store.portfolios[0];
+
+export const updatePortfolio = (
+  store: WorkspaceStore,
+  id: string,
+  changes: Partial<Omit<NamedPortfolio, "id">>
+): WorkspaceStore => ({
+  ...store,
+  portfolios: store.portfolios.map((portfolio) =>
+    portfolio.id === id
+      ? { ...portfolio, ...changes, updatedAt: Date.now() }
+      : portfolio
+  ),
+});
+
+export const addPortfolio = (
+  store: WorkspaceStore,
+  portfolio: NamedPortfolio
+): WorkspaceStore => ({
+  ...store,
+  activeId: portfolio.id,
+  portfolios: [...store.portfolios, portfolio],
+});
+
+// The last remaining portfolio cannot be removed
+export const removePortfolio = (
+  store: WorkspaceStore,
+  id: string
+): WorkspaceStore => {
+  if (store.portfolios.length <= 1) return store;
+  const portfolios = store.portfolios.filter(
+    (portfolio) => portfolio.id !== id
+  );
+  return {
+    ...store,
+    activeId: store.activeId === id ? portfolios[0].id : store.activeId,
+    portfolios,
+  };
+};
+
+export const exportPortfolioFile = (portfolio: NamedPortfolio): string =>
+  JSON.stringify(
+    {
+      format: PORTFOLIO_FILE_FORMAT,
+      version: WORKSPACE_VERSION,
+      name: portfolio.name,
+      options: portfolio.options,
+    },
+    null,
+    2
+  );
+
+// Accepts an exported portfolio file or a bare array of legs. Throws with a
+// user-facing message when the file cannot be used.
+export const importPortfolioFile = (
+  text: string,
+  fallbackName: string
+): NamedPortfolio => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  const file =
+    isRecord(parsed) && parsed.format === PORTFOLIO_FILE_FORMAT ? parsed : null;
+  if (file && !isVersioned(file)) {
+    throw new Error("Portfolio file is from a newer version of the app");
+  }
+
+  const legs = sanitizeLegs(file ? file.options : parsed);
+  if (!legs) {
+    throw new Error("Portfolio file contains invalid option legs");
+  }
+
+  const name =
+    typeof file?.name === "string" && file.name.trim()
+      ? file.name.trim()
+      : fallbackName;
+  return createPortfolio(name, legs);
+};
@@ -1,5 +1,6 @@
 #include <math.h>
 #include <stdbool.h>
+#include <stdint.h>
 #include <stdlib.h>
 
 #define DELTA 0
@@ -8,78 +9,496 @@
 #define VEGA 3
 #define RHO 4
 #define PRICE 5
+#define VANNA 6
+#define VOLGA 7
+#define CHARM 8
+#define SPEED 9
+#define COLOR 10
+#define ZOMMA 11
+#define GREEKS_COUNT 12
 
-double d1(double S, double K, double T, double r, double sigma) {
-    return (log(S / K) + (r + (sigma * sigma) / 2) * T) / (sigma * sqrt(T));
+// Pricing models, matching MODEL_CODES in wasm.ts. Black-76 and Bachelier
+// read S as the futures or forward price and ignore q.
+#define MODEL_BLACK_SCHOLES 0
+#define MODEL_BLACK_76 1
+#define MODEL_BACHELIER 2
+
+// Below this spread the terminal price is effectively known, so pricing takes
+// the deterministic limit rather than dividing by a vanishing sigma * sqrt(T)
+#define MIN_STD_DEV 1e-10
+
+double d1(double S, double K, double T, double r, double q, double sigma) {
+    return (log(S / K) + (r - q + (sigma * sigma) / 2) * T) / fmax(sigma * sqrt(T), MIN_STD_DEV);
 }
 
-double d2(double S, double K, double T, double r, double sigma) {
-    return d1(S, K, T, r, sigma) - sigma * sqrt(T);
+// Hart's double-precision algorithm as given by West (2005), matching cdf in
+// calculations.ts
+static const double CDF_NUMERATOR[] = {
+    0.0352624965998911, 0.700383064443688, 6.37396220353165, 33.912866078383,
+    112.079291497871, 221.213596169931, 220.206867912376
+};
+static const double CDF_DENOMINATOR[] = {
+    0.0883883476483184, 1.75566716318264, 16.064177579207, 86.7807322029461,
+    296.564248779674, 637.333633378831, 793.826512519948, 440.413735824752
+};
+
+static double polynomial(const double* coefficients, int count, double x) {
+    double sum = 0;
+    for (int i = 0; i < count; i++) sum = sum * x + coefficients[i];
+    return sum;
 }
 
-double cdf(double x) {
-    const double a1 = 0.254829592;
-    const double a2 = -0.284496736;
-    const double a3 = 1.421413741;
-    const double a4 = -1.453152027;
-    const double a5 = 1.061405429;
-    const double p = 0.3275911;
+// Mass beyond |x|, shared by both sides of the distribution
+static double cdfTail(double x) {
+    double z = fabs(x);
+    double tail;
+
+    // Beyond 37 the tail underflows; NaN falls through to the polynomial
+    if (z > 37) {
+        tail = 0;
+    } else if (z >= 7.07106781186547) {
+        // Continued fraction for the far tail
+        double fraction = z + 1 / (z + 2 / (z + 3 / (z + 4 / (z + 0.65))));
+        tail = exp(-z * z / 2) / fraction / 2.506628274631;
+    } else {
+        tail = exp(-z * z / 2) * polynomial(CDF_NUMERATOR, 7, z)
+            / polynomial(CDF_DENOMINATOR, 8, z);
+    }
 
-    int sign = x < 0 ? -1 : 1;
-    double z = fabs(x) / sqrt(2.0);
+    return tail;
+}
 
-    double t = 1.0 / (1.0 + p * z);
-    double erf = 1.0 - ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * exp(-z * z);
+double cdf(double x) {
+    double tail = cdfTail(x);
+    return x > 0 ? 1 - tail : tail;
+}
 
-    return 0.5 * (1.0 + sign * erf);
+// N(x) and N(-x) from one evaluation of the tail
+static void cdfPair(double x, double* below, double* above) {
+    double tail = cdfTail(x);
+    *below = x > 0 ? 1 - tail : tail;
+    *above = -x > 0 ? 1 - tail : tail;
 }
 
 double normalPDF(double x) {
     return exp(-0.5 * x * x) / sqrt(2.0 * M_PI);
 }
 
-static double greeks[6];
+static double greeks[GREEKS_COUNT];
 
-double* calculateGreeks(bool isCall, double S, double K, double T, double r, double sigma) {
+static void clearGreeks(double* out) {
+    for (int k = 0; k < GREEKS_COUNT; k++) out[k] = 0;
+}
+
+// Deterministic limit once the terminal price is known: a forward contract
+// when the forward is in the money, worthless otherwise
+static void forwardLimitGreeks(double* out, bool isCall, double S, double K, double T, double r, double q) {
+    double sign = isCall ? 1 : -1;
+    double dividendDiscount = exp(-q * T);
+    double asset = S * dividendDiscount;
+    double strike = K * exp(-r * T);
+
+    clearGreeks(out);
+    if (sign * (asset - strike) > 0) {
+        out[PRICE] = sign * (asset - strike);
+        out[DELTA] = sign * dividendDiscount;
+        out[THETA] = sign * (q * asset - r * strike) / 365;
+        out[RHO] = sign * T * strike / 100;
+        out[CHARM] = sign * q * dividendDiscount / 365;
+    }
+}
+
+// A zero spot stays at zero, a non-positive strike settles every call in the
+// money and every put out of it, and without spread the terminal price is the
+// forward; the lognormal formulas break down in all three
+static bool isForwardLimit(double S, double K, double T, double sigma) {
+    return S <= 0 || K <= 0 || !(sigma * sqrt(T) >= MIN_STD_DEV);
+}
+
+static void blackScholesGreeks(double* out, bool isCall, double S, double K, double T, double r, double q, double sigma) {
 
     if (T <= 0) {
-        // Handle expiration
+        // Handle expiration; every Greek but delta is flat
         int isInTheMoney = (isCall && S > K) || (!isCall && S < K);
-        greeks[PRICE] = isInTheMoney ? fabs(S - K) : 0;
-        greeks[DELTA] = isCall ? (S > K ? 1 : 0) : (S < K ? -1 : 0);
-        return greeks;
+        clearGreeks(out);
+        out[PRICE] = isInTheMoney ? fabs(S - K) : 0;
+        out[DELTA] = isCall ? (S > K ? 1 : 0) : (S < K ? -1 : 0);
+        return;
+    }
+    if (isForwardLimit(S, K, T, sigma)) {
+        forwardLimitGreeks(out, isCall, S, K, T, r, q);
+        return;
     }
 
-    double d1Value = d1(S, K, T, r, sigma);
-    double d2Value = d2(S, K, T, r, sigma);
+    double sqrtT = sqrt(T);
+    double d1Value = d1(S, K, T, r, q, sigma);
+    double d2Value = d1Value - sigma * sqrtT;
+    double dividendDiscount = exp(-q * T);
+    double strikeDiscount = exp(-r * T);
+    double pdf_d1 = normalPDF(d1Value);
+    // Shared by charm and color
+    double driftTerm = (2 * (r - q) * T - d2Value * sigma * sqrtT) / (2 * T * sigma * sqrtT);
 
-    double N_d1 = cdf(d1Value);
-    double N_d2 = cdf(d2Value);
-    double N_neg_d1 = cdf(-d1Value);
-    double N_neg_d2 = cdf(-d2Value);
+    double N_d1, N_neg_d1, N_d2, N_neg_d2;
+    cdfPair(d1Value, &N_d1, &N_neg_d1);
+    cdfPair(d2Value, &N_d2, &N_neg_d2);
 
     // Option price
-    greeks[PRICE] = isCall
-        ? S * N_d1 - K * exp(-r * T) * N_d2
-        : K * exp(-r * T) * N_neg_d2 - S * N_neg_d1;
+    out[PRICE] = isCall
+        ? S * dividendDiscount * N_d1 - K * strikeDiscount * N_d2
+        : K * strikeDiscount * N_neg_d2 - S * dividendDiscount * N_neg_d1;
 
     // Greeks calculations
     if (isCall) {
-        greeks[DELTA] = N_d1;
-        greeks[RHO] = (K * T * exp(-r * T) * N_d2) / 100;
-        greeks[THETA] = (-S * sigma * normalPDF(d1Value)) / (2 * sqrt(T)) - r * K * exp(-r * T) * N_d2;
+        out[DELTA] = dividendDiscount * N_d1;
+        out[RHO] = (K * T * strikeDiscount * N_d2) / 100;
+        out[THETA] = (-S * dividendDiscount * sigma * pdf_d1) / (2 * sqrt(T))
+            - r * K * strikeDiscount * N_d2
+            + q * S * dividendDiscount * N_d1;
+        out[CHARM] = q * dividendDiscount * N_d1 - dividendDiscount * pdf_d1 * driftTerm;
     } else {
-        greeks[DELTA] = N_d1 - 1;
-        greeks[RHO] = (-K * T * exp(-r * T) * N_neg_d2) / 100;
-        greeks[THETA] = (-S * sigma * normalPDF(d1Value)) / (2 * sqrt(T)) + r * K * exp(-r * T) * N_neg_d2;
+        out[DELTA] = dividendDiscount * (N_d1 - 1);
+        out[RHO] = (-K * T * strikeDiscount * N_neg_d2) / 100;
+        out[THETA] = (-S * dividendDiscount * sigma * pdf_d1) / (2 * sqrt(T))
+            + r * K * strikeDiscount * N_neg_d2
+            - q * S * dividendDiscount * N_neg_d1;
+        out[CHARM] = -q * dividendDiscount * N_neg_d1 - dividendDiscount * pdf_d1 * driftTerm;
     }
 
     // Common for both
-    greeks[GAMMA] = normalPDF(d1Value) / (S * sigma * sqrt(T));
-    greeks[VEGA] = (S * sqrt(T) * normalPDF(d1Value)) / 100;
+    out[GAMMA] = dividendDiscount * pdf_d1 / (S * sigma * sqrt(T));
+    out[VEGA] = (S * dividendDiscount * sqrt(T) * pdf_d1) / 100;
 
     // Convert theta to daily
-    greeks[THETA] = greeks[THETA] / 365;
+    out[THETA] = out[THETA] / 365;
+
+    // Higher-order Greeks: per day for time derivatives, per 1% for volatility
+    double gamma = out[GAMMA];
+    out[VANNA] = (-dividendDiscount * pdf_d1 * d2Value) / sigma / 100;
+    out[VOLGA] = (S * dividendDiscount * sqrtT * pdf_d1 * d1Value * d2Value) / sigma / 10000;
+    out[CHARM] = out[CHARM] / 365;
+    out[SPEED] = (-gamma / S) * (d1Value / (sigma * sqrtT) + 1);
+    out[COLOR] = (gamma / (2 * T)) * (2 * q * T + 1 + 2 * T * driftTerm * d1Value) / 365;
+    out[ZOMMA] = (gamma * (d1Value * d2Value - 1)) / sigma / 100;
+}
+
+// Black-Scholes with the carry equal to the rate, except that rho holds the
+// futures price fixed
+static void black76Greeks(double* out, bool isCall, double F, double K, double T, double r, double sigma) {
+    blackScholesGreeks(out, isCall, F, K, T, r, r, sigma);
+    out[RHO] = T > 0 ? -T * out[PRICE] / 100 : 0;
+}
+
+// Normal model on the forward F; sigma is in price units, so F and K may be
+// negative
+static void bachelierGreeks(double* out, bool isCall, double F, double K, double T, double r, double sigma) {
+    // Expiry and zero-spread payoffs depend only on the forward, where the
+    // normal and lognormal models agree
+    if (T <= 0 || !(sigma * sqrt(T) >= MIN_STD_DEV)) {
+        black76Greeks(out, isCall, F, K, T, r, sigma);
+        return;
+    }
+
+    double discount = exp(-r * T);
+    double sqrtT = sqrt(T);
+    double stdDev = sigma * sqrtT;
+    double d = (F - K) / stdDev;
+    double pdf = normalPDF(d);
+
+    out[PRICE] = isCall
+        ? discount * ((F - K) * cdf(d) + stdDev * pdf)
+        : discount * ((K - F) * cdf(-d) + stdDev * pdf);
+    out[DELTA] = isCall ? discount * cdf(d) : discount * (cdf(d) - 1);
+    out[GAMMA] = discount * pdf / stdDev;
+    out[VEGA] = discount * sqrtT * pdf / 100;
+    out[THETA] = (r * out[PRICE] - discount * sigma * pdf / (2 * sqrtT)) / 365;
+    out[RHO] = -T * out[PRICE] / 100;
+    out[VANNA] = -discount * pdf * d / sigma / 100;
+    out[VOLGA] = discount * sqrtT * pdf * d * d / sigma / 10000;
+    out[CHARM] = (r * out[DELTA] + discount * pdf * d / (2 * T)) / 365;
+    out[SPEED] = -discount * pdf * d / (stdDev * stdDev);
+    out[COLOR] = out[GAMMA] * (r - (d * d - 1) / (2 * T)) / 365;
+    out[ZOMMA] = out[GAMMA] * (d * d - 1) / sigma / 100;
+}
+
+static void europeanGreeks(double* out, bool isCall, double S, double K, double T, double r, double q, double sigma, int model) {
+    if (model == MODEL_BACHELIER) {
+        bachelierGreeks(out, isCall, S, K, T, r, sigma);
+    } else if (model == MODEL_BLACK_76) {
+        black76Greeks(out, isCall, S, K, T, r, sigma);
+    } else {
+        blackScholesGreeks(out, isCall, S, K, T, r, q, sigma);
+    }
+}
+
+double* calculateGreeks(bool isCall, double S, double K, double T, double r, double q, double sigma, int model) {
+    europeanGreeks(greeks, isCall, S, K, T, r, q, sigma, model);
+    return greeks;
+}
+
+#define IV_MIN 1e-6
+#define IV_MAX 5.0
+#define IV_TOLERANCE 1e-8
+#define IV_MAX_ITERATIONS 100
+
+// Failure codes returned in place of a volatility
+#define IV_INVALID_INPUT -1.0
+#define IV_BELOW_INTRINSIC -2.0
+#define IV_ABOVE_UPPER_BOUND -3.0
+#define IV_NO_CONVERGENCE -4.0
+
+double impliedVolatility(bool isCall, double price, double S, double K, double T, double r, double q) {
+    if (!(price > 0) || !(S > 0) || !(K > 0) || !(T > 0)) {
+        return IV_INVALID_INPUT;
+    }
+
+    double discountedStrike = K * exp(-r * T);
+    double discountedSpot = S * exp(-q * T);
+    double lowerBound = isCall
+        ? fmax(0.0, discountedSpot - discountedStrike)
+        : fmax(0.0, discountedStrike - discountedSpot);
+    double upperBound = isCall ? discountedSpot : discountedStrike;
+
+    if (price <= lowerBound) return IV_BELOW_INTRINSIC;
+    if (price >= upperBound) return IV_ABOVE_UPPER_BOUND;
+
+    // Newton-Raphson with a bisection fallback
+    double low = IV_MIN;
+    double high = IV_MAX;
+    double sigma = 0.2;
+
+    for (int i = 0; i < IV_MAX_ITERATIONS; i++) {
+        blackScholesGreeks(greeks, isCall, S, K, T, r, q, sigma);
+        double diff = greeks[PRICE] - price;
+
+        if (fabs(diff) < IV_TOLERANCE) return sigma;
+
+        if (diff > 0) {
+            high = sigma;
+        } else {
+            low = sigma;
+        }
+
+        double rawVega = greeks[VEGA] * 100;
+        double next = rawVega > 1e-10 ? sigma - diff / rawVega : NAN;
+        sigma = (next > low && next < high) ? next : (low + high) / 2;
+
+        if (high - low < IV_TOLERANCE) {
+            return high < IV_MAX ? sigma : IV_NO_CONVERGENCE;
+        }
+    }
+
+    return IV_NO_CONVERGENCE;
+}
+
+#define MAX_TREE_STEPS 1000
+
+static double treeValues[MAX_TREE_STEPS + 1];
+
+typedef struct {
+    double price;
+    double delta;
+    double gamma;
+    double theta;
+} BinomialResult;
 
+static double payoff(bool isCall, double S, double K) {
+    return isCall ? fmax(S - K, 0.0) : fmax(K - S, 0.0);
+}
+
+// Cox-Ross-Rubinstein tree with early exercise at every node
+static BinomialResult binomialTree(bool isCall, double S, double K, double T, double r, double q, double sigma, int steps) {
+    double dt = T / steps;
+    double u = exp(sigma * sqrt(dt));
+    double d = 1 / u;
+    double p = (exp((r - q) * dt) - d) / (u - d);
+    double discount = exp(-r * dt);
+    double layer1[2] = {0, 0};
+    double layer2[3] = {0, 0, 0};
+
+    double u2 = u * u;
+    double terminalPrice = S * pow(d, steps);
+    for (int j = 0; j <= steps; j++) {
+        treeValues[j] = payoff(isCall, terminalPrice, K);
+        terminalPrice *= u2;
+    }
+
+    for (int i = steps - 1; i >= 0; i--) {
+        double nodePrice = S * pow(d, i);
+        for (int j = 0; j <= i; j++) {
+            double continuation = discount * (p * treeValues[j + 1] + (1 - p) * treeValues[j]);
+            treeValues[j] = fmax(continuation, payoff(isCall, nodePrice, K));
+            nodePrice *= u2;
+        }
+        if (i == 2) {
+            layer2[0] = treeValues[0];
+            layer2[1] = treeValues[1];
+            layer2[2] = treeValues[2];
+        }
+        if (i == 1) {
+            layer1[0] = treeValues[0];
+            layer1[1] = treeValues[1];
+        }
+    }
+
+    BinomialResult result = {treeValues[0], 0, 0, 0};
+    if (steps < 2) return result;
+
+    double Su = S * u;
+    double Sd = S * d;
+    double Suu = S * u * u;
+    double Sdd = S * d * d;
+
+    result.delta = (layer1[1] - layer1[0]) / (Su - Sd);
+    result.gamma = ((layer2[2] - layer2[1]) / (Suu - S) - (layer2[1] - layer2[0]) / (S - Sdd)) / (0.5 * (Suu - Sdd));
+    result.theta = (layer2[1] - result.price) / (2 * dt);
+
+    return result;
+}
+
+static void americanGreeks(double* out, bool isCall, double S, double K, double T, double r, double q, double sigma, int steps) {
+    if (T <= 0) {
+        blackScholesGreeks(out, isCall, S, K, T, r, q, sigma);
+        return;
+    }
+    // With a known path the holder either exercises now or waits for expiry
+    if (isForwardLimit(S, K, T, sigma)) {
+        double intrinsic = fmax(isCall ? S - K : K - S, 0);
+        forwardLimitGreeks(out, isCall, S, K, T, r, q);
+        if (intrinsic > out[PRICE]) blackScholesGreeks(out, isCall, S, K, 0, r, q, sigma);
+        return;
+    }
+
+    if (steps > MAX_TREE_STEPS) steps = MAX_TREE_STEPS;
+
+    BinomialResult tree = binomialTree(isCall, S, K, T, r, q, sigma, steps);
+
+    // Everything the first two tree layers can't give is bump and reprice
+    double volBump = 0.01;
+    double rateBump = 0.001;
+    double spotBump = 0.01 * S;
+    double timeBump = fmin(1.0 / 365, T / 2);
+    double volUp = sigma + volBump;
+    double volDown = fmax(sigma - volBump, 1e-4);
+    BinomialResult upVol = binomialTree(isCall, S, K, T, r, q, volUp, steps);
+    BinomialResult downVol = binomialTree(isCall, S, K, T, r, q, volDown, steps);
+    BinomialResult upSpot = binomialTree(isCall, S + spotBump, K, T, r, q, sigma, steps);
+    BinomialResult downSpot = binomialTree(isCall, S - spotBump, K, T, r, q, sigma, steps);
+    BinomialResult later = binomialTree(isCall, S, K, T - timeBump, r, q, sigma, steps);
+
+    double volRange = volUp - volDown;
+    double hUp = volUp - sigma;
+    double hDown = sigma - volDown;
+
+    double rho = (binomialTree(isCall, S, K, T, r + rateBump, q, sigma, steps).price
+        - binomialTree(isCall, S, K, T, r - rateBump, q, sigma, steps).price) / (2 * rateBump) / 100;
+
+    out[PRICE] = tree.price;
+    out[DELTA] = tree.delta;
+    out[GAMMA] = tree.gamma;
+    out[THETA] = tree.theta / 365;
+    out[VEGA] = (upVol.price - downVol.price) / volRange / 100;
+    out[RHO] = rho;
+    out[VANNA] = (upVol.delta - downVol.delta) / volRange / 100;
+    out[VOLGA] = 2 * (hDown * upVol.price + hUp * downVol.price - volRange * tree.price)
+        / (hUp * hDown * volRange) / 10000;
+    out[CHARM] = (later.delta - tree.delta) / timeBump / 365;
+    out[SPEED] = (upSpot.gamma - downSpot.gamma) / (2 * spotBump);
+    out[COLOR] = (later.gamma - tree.gamma) / timeBump / 365;
+    out[ZOMMA] = (upVol.gamma - downVol.gamma) / volRange / 100;
+}
+
+double* calculateAmericanGreeks(bool isCall, double S, double K, double T, double r, double q, double sigma, int steps) {
+    americanGreeks(greeks, isCall, S, K, T, r, q, sigma, steps);
     return greeks;
-}
\ No newline at end of file
+}
+
+// Batched interface: JS writes BATCH_INPUT_STRIDE doubles per point into
+// batchInput (isCall, isAmerican, S, K, T, r, q, sigma, model), calls
+// calculateGreeksBatch once, then reads GREEKS_COUNT doubles per point from
+// batchOutput in the same order as the scalar greeks buffer. Only
+// Black-Scholes points are priced on the American tree.
+#define MAX_BATCH 4096
+#define BATCH_INPUT_STRIDE 9
+#define BATCH_OUTPUT_STRIDE GREEKS_COUNT
+
+static double batchInput[MAX_BATCH * BATCH_INPUT_STRIDE];
+static double batchOutput[MAX_BATCH * BATCH_OUTPUT_STRIDE];
+
+double* getBatchInput(void) {
+    return batchInput;
+}
+
+double* getBatchOutput(void) {
+    return batchOutput;
+}
+
+int getBatchCapacity(void) {
+    return MAX_BATCH;
+}
+
+int calculateGreeksBatch(int count, int steps) {
+    if (count > MAX_BATCH) count = MAX_BATCH;
+
+    for (int i = 0; i < count; i++) {
+        double* in = batchInput + i * BATCH_INPUT_STRIDE;
+        double* out = batchOutput + i * BATCH_OUTPUT_STRIDE;
+        bool isCall = in[0] != 0;
+        int model = (int)in[8];
+        bool isAmerican = in[1] != 0 && model == MODEL_BLACK_SCHOLES;
+
+        if (isAmerican) {
+            americanGreeks(out, isCall, in[2], in[3], in[4], in[5], in[6], in[7], steps);
+        } else {
+            europeanGreeks(out, isCall, in[2], in[3], in[4], in[5], in[6], in[7], model);
+        }
+    }
+
+    return count;
+}
+
+// Monte Carlo terminal prices under GBM. A mulberry32 generator seeded by the
+// caller feeds Box-Muller normals, so a given seed reproduces the same paths
+// here and in the JS fallback.
+#define MAX_PATHS 100000
+
+static double pathOutput[MAX_PATHS];
+static uint32_t rngState;
+
+static double nextUniform(void) {
+    rngState += 0x6D2B79F5u;
+    uint32_t t = rngState;
+    t = (t ^ (t >> 15)) * (t | 1u);
+    t = (t + (t ^ (t >> 7)) * (t | 61u)) ^ t;
+    t ^= t >> 14;
+    // Offset by half a step so the result is never 0 and log() stays finite
+    return ((double)t + 0.5) / 4294967296.0;
+}
+
+double* getPathOutput(void) {
+    return pathOutput;
+}
+
+int getPathCapacity(void) {
+    return MAX_PATHS;
+}
+
+int simulateTerminalPrices(double S, double r, double q, double sigma, double T, int count, uint32_t seed) {
+    if (count > MAX_PATHS) count = MAX_PATHS;
+
+    rngState = seed;
+    double drift = (r - q - 0.5 * sigma * sigma) * T;
+    double diffusion = sigma * sqrt(T);
+
+    for (int i = 0; i < count; i += 2) {
+        double radius = sqrt(-2.0 * log(nextUniform()));
+        double angle = 2.0 * M_PI * nextUniform();
+
+        pathOutput[i] = S * exp(drift + diffusion * radius * cos(angle));
+        if (i + 1 < count) {
+            pathOutput[i + 1] = S * exp(drift + diffusion * radius * sin(angle));
+        }
+    }
+
+    return count;
+}